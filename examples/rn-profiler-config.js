@@ -1,15 +0,0 @@
-"use strict";
-/**
- * React Native Profiler Configuration
- *
- * This file is auto-generated and managed by the RN Profiler AI VS Code extension.
- * Manual edits may be overwritten by the extension.
- *
- * IMPORTANT: After changes to this file, you may need to restart Metro Bundler
- * for the changes to take effect (especially if hot reload doesn't pick it up).
- */
-Object.defineProperty(exports, "__esModule", { value: true });
-exports.COMPONENTS_TO_PROFILE = exports.PROFILING_ENABLED = void 0;
-exports.PROFILING_ENABLED = false;
-exports.COMPONENTS_TO_PROFILE = [];
-//# sourceMappingURL=rn-profiler-config.js.map
\ No newline at end of file
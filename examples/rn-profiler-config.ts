@@ -10,4 +10,14 @@
 
 export const PROFILING_ENABLED: boolean = false;
 export const COMPONENTS_TO_PROFILE: string[] = [];
-
+export const PROFILER_SERVER_PORT: number = 1337;
+// Base URLs the runtime tries in order; the extension writes the right hosts
+// for simulators, the Android emulator (10.0.2.2) and your LAN address
+export const PROFILER_SERVER_URLS: { ios: string[]; android: string[] } = {
+  ios: ['http://localhost:1337'],
+  android: ['http://10.0.2.2:1337', 'http://localhost:1337'],
+};
+// Ports scanned when none of the URLs answer (the server falls back to the
+// next free port when the configured one is taken)
+export const PROFILER_DISCOVERY_PORTS: number[] = [1337, 1338, 1339, 1340, 1341, 1342, 1343, 1344, 1345, 1346];
+export const PROFILER_AUTH_TOKEN: string = ''; // Written by the extension (per workspace)
@@ -13,34 +13,295 @@
  */
 
 import React, { ProfilerOnRenderCallback } from 'react';
-import { Platform } from 'react-native';
+import { AppState, Platform } from 'react-native';
 import axios from 'axios';
-import { PROFILING_ENABLED, COMPONENTS_TO_PROFILE } from '../src/rn-profiler-config';
+import {
+    PROFILING_ENABLED,
+    COMPONENTS_TO_PROFILE,
+    PROFILER_AUTH_TOKEN,
+    PROFILER_SERVER_URLS,
+    PROFILER_DISCOVERY_PORTS,
+} from '../src/rn-profiler-config';
+// Wire types and constants from the extension's src/protocol.ts. Your app
+// keeps its own copy as src/rn-profiler-protocol.ts (README step 3); update it
+// when you update the extension
+import {
+    PROTOCOL_VERSION,
+    DISCOVERY_SERVICE,
+    ProfileLogPayload,
+    ControlCommand,
+    DeviceInfo,
+    DiscoveryInfo,
+} from '../src/rn-profiler-protocol';
 
-// Configuration for the VS Code extension server
-const PROFILER_SERVER_URL = __DEV__ 
-    ? 'http://localhost:1337/profile-data' // Change this port if your extension uses a different port
-    : null; // Disable in production builds
+// Base URLs of the VS Code extension server to try, in order, on this
+// platform. The extension writes them into rn-profiler-config.ts: the
+// simulator/emulator host (localhost, 10.0.2.2) first, then its LAN address
+const PROFILER_SERVER_CANDIDATES: string[] = __DEV__
+    ? (Platform.OS === 'android' ? PROFILER_SERVER_URLS.android : PROFILER_SERVER_URLS.ios)
+    : []; // Disable in production builds
+const SERVER_PROBE_TIMEOUT_MS = 1000;
+
+// Buffering thresholds - renders are queued and sent in batches so profiling
+// doesn't flood the JS thread with one HTTP request per render
+const BATCH_MAX_SIZE = 50; // Flush as soon as this many logs are queued
+const BATCH_FLUSH_INTERVAL_MS = 1000; // Flush queued logs at least this often
+const MAX_PENDING_LOGS = 1000; // Drop the oldest logs beyond this (e.g. server unreachable)
+
+// WebSocket control channel (at /control on the same server) - lets the
+// extension start/stop recording and change the component list live,
+// without a Metro restart
+const CONTROL_RECONNECT_INTERVAL_MS = 3000;
+
+// Identifies this app launch to the extension, so logs from several
+// devices recorded in one session can be told apart
+const CLIENT_ID = `${Platform.OS}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Live profiling state - seeded from the generated config, then driven by
+// the extension over the control channel once connected
+let profilingEnabled = PROFILING_ENABLED;
+let componentsToProfile = COMPONENTS_TO_PROFILE;
+let currentSessionId: string | undefined; // Recording session announced by the extension
+let serverBaseUrl: string | null = null; // First candidate URL that answered
+let serverLookup: Promise<string | null> | null = null; // Probe in progress
+
+function getDeviceInfo(): DeviceInfo {
+    return {
+        os: Platform.OS,
+        version: Platform.Version.toString(),
+        model: Platform.select({
+            ios: undefined, // Platform doesn't provide model on iOS easily
+            android: undefined, // Would need DeviceInfo module
+        }),
+    };
+}
+
+/**
+ * Checks whether renders of the given component should be recorded right now
+ */
+function shouldProfile(componentName: string): boolean {
+    if (!profilingEnabled || PROFILER_SERVER_CANDIDATES.length === 0) {
+        return false;
+    }
+
+    return componentsToProfile.length === 0 || componentsToProfile.includes(componentName);
+}
+
+/**
+ * Checks that the extension's server (not just anything) answers at a URL
+ */
+async function isProfilerServer(url: string): Promise<boolean> {
+    try {
+        const response = await axios.get<DiscoveryInfo>(`${url}/discover`, {
+            timeout: SERVER_PROBE_TIMEOUT_MS,
+        });
+        return response.data?.service === DISCOVERY_SERVICE;
+    } catch (error) {
+        return false; // Unreachable from this device, or another service
+    }
+}
+
+/**
+ * Finds the extension's server: the candidate URLs first, then the same
+ * hosts on the other ports it may have fallen back to because the
+ * configured one was taken. Concurrent callers share one lookup
+ */
+function resolveServerBaseUrl(): Promise<string | null> {
+    if (serverBaseUrl) {
+        return Promise.resolve(serverBaseUrl);
+    }
+    if (serverLookup) {
+        return serverLookup;
+    }
+
+    const urls = [...PROFILER_SERVER_CANDIDATES];
+    for (const candidate of PROFILER_SERVER_CANDIDATES) {
+        const host = candidate.replace(/:\d+$/, '');
+        for (const port of PROFILER_DISCOVERY_PORTS) {
+            if (!urls.includes(`${host}:${port}`)) {
+                urls.push(`${host}:${port}`);
+            }
+        }
+    }
+
+    serverLookup = (async () => {
+        for (const url of urls) {
+            if (await isProfilerServer(url)) {
+                serverBaseUrl = url;
+                return url;
+            }
+        }
+        return null;
+    })().finally(() => {
+        serverLookup = null;
+    });
+    return serverLookup;
+}
+
+let pendingLogs: ProfileLogPayload[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Sends all queued logs to the extension server in a single request
+ */
+export function flushProfileLogs() {
+    if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
+    }
+
+    if (PROFILER_SERVER_CANDIDATES.length === 0 || pendingLogs.length === 0) {
+        return;
+    }
+
+    const batch = pendingLogs;
+    pendingLogs = [];
+
+    // Fire and forget - a failed batch is dropped rather than retried
+    resolveServerBaseUrl()
+        .then((baseUrl) => {
+            if (!baseUrl) {
+                throw new Error(`extension server not reachable at ${PROFILER_SERVER_CANDIDATES.join(', ')}`);
+            }
+            return axios.post(`${baseUrl}/profile-data/batch`, { protocolVersion: PROTOCOL_VERSION, logs: batch }, {
+                timeout: 2000, // Short timeout to avoid blocking
+                headers: {
+                    'X-Profiler-Token': PROFILER_AUTH_TOKEN,
+                    'X-Profiler-Client': CLIENT_ID,
+                },
+            });
+        })
+        .catch((error) => {
+            // No response at all: look for the server again on the next flush
+            if (!error.response) {
+                serverBaseUrl = null;
+            }
+            // Silently fail - we don't want profiling to break the app
+            if (__DEV__) {
+                const status = error.response?.status;
+                const supportedVersions = error.response?.data?.supportedVersions;
+                const reason = status === 401
+                    ? 'invalid PROFILER_AUTH_TOKEN'
+                    : status === 429
+                        ? 'rate limited by the extension'
+                        : supportedVersions
+                            ? `protocol v${PROTOCOL_VERSION} not supported by the extension (supports ${supportedVersions.join(', ')}) - update withProfiler.tsx`
+                            : error.message;
+                console.warn(`[Profiler] Failed to send ${batch.length} profile logs:`, reason);
+            }
+        });
+}
 
 /**
- * Profile log data structure sent to VS Code extension
+ * Queues a log and schedules a flush based on the size/time thresholds
  */
-interface ProfileLog {
-    id: string;
-    phase: 'mount' | 'update' | 'force-update';
-    actualDuration: number;
-    baseDuration: number;
-    startTime: number;
-    commitTime: number;
-    timestamp: string;
-    deviceInfo: {
-        os: string;
-        version: string;
-        model?: string;
+function enqueueProfileLog(profileLog: ProfileLogPayload) {
+    pendingLogs.push(profileLog);
+
+    if (pendingLogs.length > MAX_PENDING_LOGS) {
+        pendingLogs.splice(0, pendingLogs.length - MAX_PENDING_LOGS);
+    }
+
+    if (pendingLogs.length >= BATCH_MAX_SIZE) {
+        flushProfileLogs();
+    } else if (!flushTimer) {
+        flushTimer = setTimeout(flushProfileLogs, BATCH_FLUSH_INTERVAL_MS);
+    }
+}
+
+// Flush whatever is queued when the app leaves the foreground, since timers
+// may not fire again until it returns
+if (PROFILER_SERVER_CANDIDATES.length > 0) {
+    AppState.addEventListener('change', (state) => {
+        if (state !== 'active') {
+            flushProfileLogs();
+        }
+    });
+}
+
+/**
+ * Applies a command from the extension and acknowledges it with this device's info
+ */
+function handleControlCommand(socket: WebSocket, command: ControlCommand) {
+    switch (command.type) {
+        case 'welcome':
+            // Negotiated version; this runtime only sends PROTOCOL_VERSION,
+            // which the extension accepted by replying with it
+            if (__DEV__ && command.protocolVersion !== PROTOCOL_VERSION) {
+                console.warn(`[Profiler] Extension negotiated protocol v${command.protocolVersion}, this runtime sends v${PROTOCOL_VERSION}`);
+            }
+            return;
+        case 'start':
+            profilingEnabled = true;
+            componentsToProfile = command.components;
+            currentSessionId = command.sessionId;
+            break;
+        case 'stop':
+            flushProfileLogs();
+            profilingEnabled = false;
+            break;
+        case 'components':
+            componentsToProfile = command.components;
+            break;
+        default:
+            return;
+    }
+
+    socket.send(JSON.stringify({
+        type: 'ack',
+        command: command.type,
+        clientId: CLIENT_ID,
+        sessionId: currentSessionId,
+        deviceInfo: getDeviceInfo(),
+    }));
+}
+
+/**
+ * Connects to the extension's control channel, retrying until it is reachable
+ * (the extension only runs its server once a recording has been started)
+ */
+async function connectControlChannel() {
+    if (PROFILER_SERVER_CANDIDATES.length === 0) {
+        return;
+    }
+
+    const baseUrl = await resolveServerBaseUrl();
+    if (!baseUrl) {
+        setTimeout(connectControlChannel, CONTROL_RECONNECT_INTERVAL_MS);
+        return;
+    }
+
+    const socket = new WebSocket(
+        `${baseUrl.replace(/^http/, 'ws')}/control?token=${encodeURIComponent(PROFILER_AUTH_TOKEN)}`
+    );
+
+    socket.onopen = () => {
+        socket.send(JSON.stringify({
+            type: 'hello',
+            clientId: CLIENT_ID,
+            deviceInfo: getDeviceInfo(),
+            protocolVersions: [PROTOCOL_VERSION],
+        }));
+    };
+
+    socket.onmessage = (event) => {
+        try {
+            handleControlCommand(socket, JSON.parse(String(event.data)));
+        } catch (error) {
+            // Ignore malformed commands
+        }
+    };
+
+    // onerror is always followed by onclose, which schedules the retry
+    socket.onerror = () => {};
+    socket.onclose = () => {
+        serverBaseUrl = null; // The server may come back elsewhere
+        setTimeout(connectControlChannel, CONTROL_RECONNECT_INTERVAL_MS);
     };
-    interactions?: string[];
 }
 
+connectControlChannel();
+
 /**
  * Creates the onRender callback for React.Profiler
  */
@@ -54,16 +315,13 @@ function createOnRenderCallback(componentName: string): ProfilerOnRenderCallback
         commitTime: number
     ) => {
         // Only send data if profiling is enabled and this component is in the list
-        if (!PROFILING_ENABLED || !PROFILER_SERVER_URL) {
-            return;
-        }
-
-        if (COMPONENTS_TO_PROFILE.length > 0 && !COMPONENTS_TO_PROFILE.includes(componentName)) {
+        if (!shouldProfile(componentName)) {
             return;
         }
 
         // Prepare the profile log
-        const profileLog: ProfileLog = {
+        const profileLog: ProfileLogPayload = {
+            protocolVersion: PROTOCOL_VERSION,
             id: componentName,
             phase,
             actualDuration,
@@ -71,27 +329,12 @@ function createOnRenderCallback(componentName: string): ProfilerOnRenderCallback
             startTime,
             commitTime,
             timestamp: new Date().toISOString(),
-            deviceInfo: {
-                os: Platform.OS,
-                version: Platform.Version.toString(),
-                model: Platform.select({
-                    ios: undefined, // Platform doesn't provide model on iOS easily
-                    android: undefined, // Would need DeviceInfo module
-                }),
-            },
+            deviceInfo: getDeviceInfo(),
+            clientId: CLIENT_ID,
         };
 
-        // Send to VS Code extension server (fire and forget)
-        axios
-            .post(PROFILER_SERVER_URL, profileLog, {
-                timeout: 1000, // Short timeout to avoid blocking
-            })
-            .catch((error) => {
-                // Silently fail - we don't want profiling to break the app
-                if (__DEV__) {
-                    console.warn(`[Profiler] Failed to send profile data for ${componentName}:`, error.message);
-                }
-            });
+        // Queue for the next batch sent to the VS Code extension server
+        enqueueProfileLog(profileLog);
     };
 }
 
@@ -132,11 +375,7 @@ export function withProfiler<P extends object>(
  */
 export function useProfiler(componentName: string) {
     React.useEffect(() => {
-        if (!PROFILING_ENABLED || !PROFILER_SERVER_URL) {
-            return;
-        }
-
-        if (COMPONENTS_TO_PROFILE.length > 0 && !COMPONENTS_TO_PROFILE.includes(componentName)) {
+        if (!shouldProfile(componentName)) {
             return;
         }
 
@@ -146,7 +385,8 @@ export function useProfiler(componentName: string) {
             const unmountTime = performance.now();
             const duration = unmountTime - mountTime;
 
-            const profileLog: ProfileLog = {
+            const profileLog: ProfileLogPayload = {
+                protocolVersion: PROTOCOL_VERSION,
                 id: componentName,
                 phase: 'mount',
                 actualDuration: duration,
@@ -154,17 +394,11 @@ export function useProfiler(componentName: string) {
                 startTime: mountTime,
                 commitTime: unmountTime,
                 timestamp: new Date().toISOString(),
-                deviceInfo: {
-                    os: Platform.OS,
-                    version: Platform.Version.toString(),
-                },
+                deviceInfo: getDeviceInfo(),
+                clientId: CLIENT_ID,
             };
 
-            axios
-                .post(PROFILER_SERVER_URL, profileLog, { timeout: 1000 })
-                .catch(() => {
-                    // Silently fail
-                });
+            enqueueProfileLog(profileLog);
         };
     }, [componentName]);
 }
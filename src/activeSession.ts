@@ -0,0 +1,137 @@
+import * as vscode from "vscode";
+import { ProfileLog, SessionInfo } from "./types";
+import { SessionRepository } from "./sessionRepository";
+import { computeSessionStats, ComponentStats, SessionStats } from "./stats";
+import { AnalysisFinding } from "./logAnalyzer";
+
+/**
+ * The session the editor reports on (CodeLens and hovers on components):
+ * the last recording that stopped or the session last shown in the panel,
+ * falling back to the newest saved session after a reload
+ */
+export class ActiveSession {
+  private session: SessionInfo | undefined;
+  private logs: ProfileLog[] = [];
+  private stats: SessionStats | undefined;
+  private components: Map<string, ComponentStats> | undefined;
+  private analysis:
+    | { sessionId: string; findings: AnalysisFinding[] }
+    | undefined;
+  private changeEmitter = new vscode.EventEmitter<void>();
+
+  readonly onDidChange = this.changeEmitter.event;
+
+  set(session: SessionInfo, logs: ProfileLog[]) {
+    if (session === this.session && logs === this.logs) {
+      return;
+    }
+    this.session = session;
+    this.logs = logs;
+    this.stats = undefined;
+    this.components = undefined;
+    this.changeEmitter.fire();
+  }
+
+  /**
+   * Makes the newest saved session active, unless one was set meanwhile
+   */
+  async loadLatest(repository: SessionRepository): Promise<void> {
+    const [latest] = await repository.list();
+    if (!latest || this.session) {
+      return;
+    }
+    const { meta, logs } = await repository.load(latest.id);
+    if (!this.session) {
+      this.set(meta, logs);
+    }
+  }
+
+  /**
+   * Keeps the findings of the latest analysis of a session
+   */
+  setFindings(sessionId: string, findings: AnalysisFinding[]) {
+    this.analysis = { sessionId, findings };
+    this.changeEmitter.fire();
+  }
+
+  /**
+   * Findings of the latest analysis about any of the ids, most severe
+   * first; none when the active session wasn't the one analyzed
+   */
+  getFindings(...ids: Array<string | undefined>): AnalysisFinding[] {
+    const order = { High: 0, Medium: 1, Low: 2 };
+    return this.getSessionFindings()
+      .filter((finding) => ids.includes(finding.component))
+      .sort((a, b) => order[a.severity] - order[b.severity]);
+  }
+
+  /**
+   * Every finding of the latest analysis of the active session
+   */
+  getSessionFindings(): AnalysisFinding[] {
+    if (!this.analysis || this.analysis.sessionId !== this.session?.id) {
+      return [];
+    }
+    return this.analysis.findings;
+  }
+
+  getSession(): SessionInfo | undefined {
+    return this.session;
+  }
+
+  getLogs(): ProfileLog[] {
+    return this.logs;
+  }
+
+  /**
+   * Statistics of the session, computed on first use
+   */
+  getStats(): SessionStats | undefined {
+    if (!this.session) {
+      return undefined;
+    }
+    if (!this.stats) {
+      this.stats = computeSessionStats(this.logs);
+    }
+    return this.stats;
+  }
+
+  /**
+   * Statistics of the first id that was rendered in the session. Logs carry
+   * whatever id the app passed to withProfiler, so callers try the tree path
+   * ("path/to/file.tsx::Name") as well as the plain name
+   */
+  findComponent(...ids: Array<string | undefined>): ComponentStats | undefined {
+    const stats = this.getStats();
+    if (!stats) {
+      return undefined;
+    }
+    if (!this.components) {
+      this.components = new Map(
+        stats.components.map((component) => [component.id, component])
+      );
+    }
+    for (const id of ids) {
+      const component = id !== undefined && this.components.get(id);
+      if (component) {
+        return component;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Logs of the first id that was rendered in the session, as findComponent
+   */
+  getComponentLogs(...ids: Array<string | undefined>): ProfileLog[] {
+    const component = this.findComponent(...ids);
+    if (!component) {
+      return [];
+    }
+    return this.logs.filter((log) => log.id === component.id);
+  }
+
+  dispose() {
+    this.changeEmitter.dispose();
+  }
+}
@@ -0,0 +1,238 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ProfileLog, SessionInfo } from "./types";
+import { computeSessionStats, ComponentStats } from "./stats";
+
+// Checked-in budgets, relative to the workspace (or CLI working directory)
+export const DEFAULT_BUDGETS_FILE = path.join(".rn-profiler", "budgets.json");
+
+export type BudgetMetric = "maxP95Duration" | "maxMountDuration" | "maxUpdates";
+
+/**
+ * Limits for one component id or glob; omitted metrics aren't checked
+ */
+export type BudgetLimits = Partial<Record<BudgetMetric, number>>;
+
+/**
+ * Contents of the budgets file, e.g.
+ * { "budgets": { "ProductList": { "maxP95Duration": 16 }, "*Screen": { "maxUpdates": 50 } } }
+ */
+export interface BudgetFile {
+  budgets: Record<string, BudgetLimits>;
+}
+
+/**
+ * Result of checking one metric of one component against its limit
+ */
+export interface BudgetCheck {
+  component: string;
+  pattern: string; // Budgets entry (id or glob) that applied
+  metric: BudgetMetric;
+  limit: number;
+  actual?: number; // Undefined when nothing was recorded to measure
+  status: "passed" | "failed" | "skipped";
+}
+
+export interface BudgetReport {
+  passed: boolean;
+  failures: number;
+  checks: BudgetCheck[];
+}
+
+const BUDGET_METRICS: Record<BudgetMetric, { label: string; unit: string }> = {
+  maxP95Duration: { label: "p95 actualDuration", unit: "ms" },
+  maxMountDuration: { label: "mount actualDuration", unit: "ms" },
+  maxUpdates: { label: "updates per session", unit: "" },
+};
+
+/**
+ * Validates parsed budgets JSON, throwing on unknown metrics or bad limits
+ */
+export function parseBudgets(data: unknown): BudgetFile {
+  const budgets = (data as BudgetFile)?.budgets;
+  if (!budgets || typeof budgets !== "object" || Array.isArray(budgets)) {
+    throw new Error('Expected a "budgets" object mapping components to limits');
+  }
+
+  for (const [pattern, limits] of Object.entries(budgets)) {
+    if (!limits || typeof limits !== "object") {
+      throw new Error(`Budget for "${pattern}" must be an object of limits`);
+    }
+    for (const [metric, limit] of Object.entries(limits)) {
+      if (!(metric in BUDGET_METRICS)) {
+        throw new Error(
+          `Unknown budget "${metric}" for "${pattern}"; expected one of ${Object.keys(
+            BUDGET_METRICS
+          ).join(", ")}`
+        );
+      }
+      if (typeof limit !== "number" || !(limit >= 0)) {
+        throw new Error(
+          `Budget ${metric} for "${pattern}" must be a non-negative number`
+        );
+      }
+    }
+  }
+  return { budgets };
+}
+
+export async function loadBudgets(file: string): Promise<BudgetFile> {
+  const content = await fs.promises.readFile(file, "utf8");
+  try {
+    return parseBudgets(JSON.parse(content));
+  } catch (error: any) {
+    throw new Error(`Invalid budgets file ${file}: ${error.message}`);
+  }
+}
+
+/**
+ * Checks each recorded component against the budget that applies to it: an
+ * entry for its exact id, otherwise the most specific matching glob (the
+ * one with the most literal characters; ties go to the first in the file).
+ * Exact entries for components that weren't recorded are reported as skipped
+ */
+export function evaluateBudgets(
+  logs: ProfileLog[],
+  budgetFile: BudgetFile
+): BudgetReport {
+  const byComponent = new Map(
+    computeSessionStats(logs).components.map((stats) => [stats.id, stats])
+  );
+
+  const patterns = Object.keys(budgetFile.budgets);
+  const globs = patterns
+    .filter(isGlob)
+    .map((pattern) => ({ pattern, regex: globToRegExp(pattern) }))
+    .sort((a, b) => literalLength(b.pattern) - literalLength(a.pattern));
+
+  const checks: BudgetCheck[] = [];
+  const components = new Set([
+    ...byComponent.keys(),
+    ...patterns.filter((pattern) => !isGlob(pattern)),
+  ]);
+  for (const component of Array.from(components).sort()) {
+    const pattern =
+      Object.prototype.hasOwnProperty.call(budgetFile.budgets, component)
+        ? component
+        : globs.find((glob) => glob.regex.test(component))?.pattern;
+    if (pattern === undefined) {
+      continue;
+    }
+
+    const stats = byComponent.get(component);
+    const limits = budgetFile.budgets[pattern];
+    for (const metric of Object.keys(BUDGET_METRICS) as BudgetMetric[]) {
+      const limit = limits[metric];
+      if (limit === undefined) {
+        continue;
+      }
+      const actual = stats && measure(metric, stats);
+      let status: BudgetCheck["status"] = "skipped";
+      if (actual !== undefined) {
+        status = actual > limit ? "failed" : "passed";
+      }
+      checks.push({ component, pattern, metric, limit, actual, status });
+    }
+  }
+
+  const failures = checks.filter((check) => check.status === "failed").length;
+  return { passed: failures === 0, failures, checks };
+}
+
+/**
+ * One-line summary, e.g. "ProductList: p95 actualDuration 21.40ms > 16ms"
+ */
+export function describeCheck(check: BudgetCheck): string {
+  const { label, unit } = BUDGET_METRICS[check.metric];
+  if (check.actual === undefined) {
+    return `${check.component}: ${label} not recorded (limit ${check.limit}${unit})`;
+  }
+  const actual = unit ? check.actual.toFixed(2) : String(check.actual);
+  const comparison = check.status === "failed" ? ">" : "<=";
+  return `${check.component}: ${label} ${actual}${unit} ${comparison} ${check.limit}${unit}`;
+}
+
+/**
+ * Renders a report as JUnit XML, one test case per check, for CI systems
+ */
+export function toJUnitXml(
+  report: BudgetReport,
+  session?: SessionInfo
+): string {
+  const skipped = report.checks.filter(
+    (check) => check.status === "skipped"
+  ).length;
+  const suite = `Performance budgets${session ? ` (${session.id})` : ""}`;
+
+  const testCases = report.checks.map((check) => {
+    const { label, unit } = BUDGET_METRICS[check.metric];
+    const open = `    <testcase classname="${escapeXml(
+      check.component
+    )}" name="${escapeXml(`${label} <= ${check.limit}${unit}`)}" time="0"`;
+    if (check.status === "passed") {
+      return `${open}/>`;
+    }
+    const child =
+      check.status === "failed"
+        ? `<failure type="budget" message="${escapeXml(describeCheck(check))}"/>`
+        : `<skipped message="${escapeXml(describeCheck(check))}"/>`;
+    return `${open}>\n      ${child}\n    </testcase>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="rn-profiler" tests="${report.checks.length}" failures="${report.failures}" skipped="${skipped}">`,
+    `  <testsuite name="${escapeXml(suite)}" tests="${
+      report.checks.length
+    }" failures="${report.failures}" skipped="${skipped}"${
+      session?.startTime
+        ? ` timestamp="${escapeXml(session.startTime)}"`
+        : ""
+    }>`,
+    ...testCases,
+    "  </testsuite>",
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
+
+function measure(
+  metric: BudgetMetric,
+  stats: ComponentStats
+): number | undefined {
+  switch (metric) {
+    case "maxP95Duration":
+      return stats.durations.p95;
+    case "maxMountDuration":
+      return stats.phases.mount?.max;
+    case "maxUpdates":
+      return stats.durations.count - (stats.phases.mount?.count || 0);
+  }
+}
+
+function isGlob(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+function literalLength(pattern: string): number {
+  return pattern.replace(/[*?]/g, "").length;
+}
+
+/**
+ * "*" matches any run of characters (including "/" and "::"), "?" one
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${source}$`);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
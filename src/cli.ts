@@ -0,0 +1,509 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import { ProfilerServer } from "./profilerServer";
+import { SessionRepository } from "./sessionRepository";
+import { LogAnalyzer, extractFindings } from "./logAnalyzer";
+import {
+  DEFAULT_BUDGETS_FILE,
+  loadBudgets,
+  evaluateBudgets,
+  describeCheck,
+  toJUnitXml,
+} from "./budgets";
+import { findComponentDeclarations } from "./componentDeclarations";
+import { ControlClientInfo, ProfileLog, SessionInfo } from "./types";
+
+// Source files searched for the declarations of logged components
+const SOURCE_EXTENSIONS = new Set([".tsx", ".ts", ".jsx", ".js"]);
+const EXCLUDED_DIRS = new Set(["node_modules", ".git", "build", "dist", ".expo"]);
+const MAX_SOURCE_FILES = 5000;
+
+const USAGE = `Usage:
+  rn-profiler record [options]     Start the profiler server and record a session
+  rn-profiler analyze <file>       Run AI analysis on a saved session file
+  rn-profiler check <file>         Check a saved session file against budgets
+
+Record options:
+  --port <n>            Server port (default: 1337)
+  --port-range <n>      Consecutive ports to try when the port is taken (default: 10)
+  --host <address>      Interface to listen on (default: 127.0.0.1; 0.0.0.0 for devices)
+  --token <token>       Auth token apps must send (default: $RN_PROFILER_TOKEN, none)
+  --components <list>   Comma-separated components to profile (default: all)
+  --duration <seconds>  Stop after this long (default: until Ctrl+C or SIGTERM)
+  --out <file>          Also write the session and its logs to this JSON file
+  --sessions-dir <dir>  Where sessions are saved (default: .rn-profiler/sessions)
+  --analyze             Run AI analysis when recording stops
+
+Budget options (record, check):
+  --budgets <file>      Budgets file (default: .rn-profiler/budgets.json; record
+                        only checks budgets when it exists)
+  --junit <file>        Write the budget results as JUnit XML
+
+Analysis options (record --analyze, analyze):
+  --provider <name>     openai or anthropic (default: $RN_PROFILER_API_PROVIDER or openai)
+  --source-root <dir>   Project root searched for the components' declarations,
+                        whose source is sent to the AI (default: cwd)
+  --report <file>       Write the analysis Markdown here instead of stdout
+
+The analysis doesn't include code edits; suggest and apply those from the
+extension's panel. The API key is read from $RN_PROFILER_API_KEY.
+
+Exits with 1 when a budget is exceeded or on errors, and 2 on invalid
+arguments.`;
+
+/**
+ * Thrown for invalid command lines; printed together with the usage text
+ */
+class UsageError extends Error {}
+
+type CliOptions = ReturnType<typeof parseCommandLine>["values"];
+
+function parseCommandLine(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      port: { type: "string" },
+      "port-range": { type: "string" },
+      host: { type: "string" },
+      token: { type: "string" },
+      components: { type: "string" },
+      duration: { type: "string" },
+      out: { type: "string" },
+      "sessions-dir": { type: "string" },
+      analyze: { type: "boolean" },
+      budgets: { type: "string" },
+      junit: { type: "string" },
+      provider: { type: "string" },
+      "source-root": { type: "string" },
+      report: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+}
+
+async function main(argv: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine(argv);
+  } catch (error: any) {
+    throw new UsageError(error.message);
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  switch (command) {
+    case "record":
+      return record(values);
+    case "analyze":
+      if (rest.length !== 1) {
+        throw new UsageError("analyze expects exactly one session file");
+      }
+      return analyzeFile(rest[0], values);
+    case "check":
+      if (rest.length !== 1) {
+        throw new UsageError("check expects exactly one session file");
+      }
+      return checkFile(rest[0], values);
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+/**
+ * Records one session: starts the server, tells connected apps to start
+ * profiling, and on timeout or signal saves the session (and analyzes it)
+ */
+async function record(options: CliOptions): Promise<number> {
+  const port = parseNumber(options.port, "--port", 1337);
+  const durationSeconds = options.duration
+    ? parseNumber(options.duration, "--duration", 0)
+    : undefined;
+  const components = (options.components || "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  const server = new ProfilerServer(port, {
+    host: options.host,
+    authToken: options.token || process.env.RN_PROFILER_TOKEN || undefined,
+    portRange: parseNumber(options["port-range"], "--port-range", 10),
+  });
+  await server.start();
+  console.log(
+    `Listening on ${options.host || "127.0.0.1"}:${server.getPort()}` +
+      (server.getPort() !== port ? ` (port ${port} was in use)` : "")
+  );
+
+  server.on("clientConnected", (client: ControlClientInfo) => {
+    console.log(
+      `App connected: ${client.deviceInfo.os} ${client.deviceInfo.version} (client ${client.clientId})`
+    );
+  });
+  server.on("clientDisconnected", (client: ControlClientInfo) => {
+    console.log(`App disconnected: client ${client.clientId}`);
+  });
+
+  const session = server.startRecording(components);
+  console.log(
+    `Recording session ${session.id}` +
+      (components.length > 0 ? ` for ${components.join(", ")}` : "") +
+      (durationSeconds !== undefined
+        ? ` for ${durationSeconds}s`
+        : "; press Ctrl+C to stop")
+  );
+
+  await waitForStop(durationSeconds);
+
+  await server.stopRecording();
+  const logs = await server.getAllLogs();
+  const info = server.getSession()!;
+  // Give the stop command a moment to reach the apps before closing sockets
+  await new Promise((resolve) => setTimeout(resolve, 200));
+  server.stop();
+  console.log(
+    `Recorded ${logs.length} logs from ${info.clients.length} device(s)`
+  );
+
+  const repository = new SessionRepository(
+    path.resolve(
+      options["sessions-dir"] || path.join(".rn-profiler", "sessions")
+    )
+  );
+  await repository.save(info, logs);
+  console.log(`Saved session to ${repository.getDirectory()}`);
+
+  if (options.out) {
+    await writeSessionFile(options.out, info, logs);
+    console.log(`Wrote ${options.out}`);
+  }
+
+  let exitCode = 0;
+  if (options.budgets || fs.existsSync(DEFAULT_BUDGETS_FILE)) {
+    exitCode = await checkBudgets(logs, info, options);
+  }
+
+  if (options.analyze) {
+    if (logs.length === 0) {
+      console.error("No logs recorded; skipping analysis");
+      return 1;
+    }
+    await runAnalysis(logs, options);
+  }
+  return exitCode;
+}
+
+/**
+ * Resolves after the duration, or on the first SIGINT/SIGTERM
+ */
+function waitForStop(durationSeconds: number | undefined): Promise<void> {
+  return new Promise((resolve) => {
+    let timer: NodeJS.Timeout | undefined;
+    const stop = () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      process.off("SIGINT", stop);
+      process.off("SIGTERM", stop);
+      resolve();
+    };
+
+    process.on("SIGINT", stop);
+    process.on("SIGTERM", stop);
+    if (durationSeconds !== undefined) {
+      timer = setTimeout(stop, durationSeconds * 1000);
+    }
+  });
+}
+
+/**
+ * Analyzes a session file written by `record --out` or saved by the
+ * extension (<id>.json in .rn-profiler/sessions)
+ */
+async function analyzeFile(file: string, options: CliOptions): Promise<number> {
+  const { logs } = await readSessionFile(file);
+  if (logs.length === 0) {
+    console.error(`${file} contains no logs`);
+    return 1;
+  }
+
+  await runAnalysis(logs, options);
+  return 0;
+}
+
+/**
+ * Checks a session file written by `record --out` or saved by the extension
+ */
+async function checkFile(file: string, options: CliOptions): Promise<number> {
+  const { session, logs } = await readSessionFile(file);
+  return checkBudgets(logs, session, options);
+}
+
+/**
+ * Reads a session file in either shape: { session, logs } from
+ * `record --out`, or { sessionId, logs } saved by the extension, whose
+ * session summary is in the <id>.meta.json next to it
+ */
+async function readSessionFile(
+  file: string
+): Promise<{ session: SessionInfo | undefined; logs: ProfileLog[] }> {
+  const data = JSON.parse(await fs.promises.readFile(file, "utf8"));
+  const logs: ProfileLog[] = Array.isArray(data.logs) ? data.logs : [];
+  if (data.session) {
+    return { session: data.session, logs };
+  }
+
+  let session: SessionInfo | undefined;
+  if (typeof data.sessionId === "string") {
+    const metaFile = path.join(
+      path.dirname(file),
+      `${path.basename(data.sessionId)}.meta.json`
+    );
+    try {
+      session = JSON.parse(await fs.promises.readFile(metaFile, "utf8"));
+    } catch (error) {
+      // Without its metadata the session is only known by id
+      session = {
+        id: data.sessionId,
+        startTime: "",
+        clients: [],
+        logCount: logs.length,
+      };
+    }
+  }
+  return { session, logs };
+}
+
+/**
+ * Prints each budget check, writes JUnit XML if asked, and returns the exit
+ * code: 1 when any budget is exceeded
+ */
+async function checkBudgets(
+  logs: ProfileLog[],
+  session: SessionInfo | undefined,
+  options: CliOptions
+): Promise<number> {
+  const budgetsFile = options.budgets || DEFAULT_BUDGETS_FILE;
+  const report = evaluateBudgets(logs, await loadBudgets(budgetsFile));
+
+  for (const check of report.checks) {
+    const marker = { passed: "PASS", failed: "FAIL", skipped: "SKIP" }[
+      check.status
+    ];
+    console.log(`${marker} ${describeCheck(check)}`);
+  }
+  console.log(
+    report.passed
+      ? `All ${report.checks.length} budget checks passed (${budgetsFile})`
+      : `${report.failures} of ${report.checks.length} budget checks failed (${budgetsFile})`
+  );
+
+  if (options.junit) {
+    await fs.promises.mkdir(path.dirname(path.resolve(options.junit)), {
+      recursive: true,
+    });
+    await fs.promises.writeFile(
+      options.junit,
+      toJUnitXml(report, session),
+      "utf8"
+    );
+    console.log(`Wrote ${options.junit}`);
+  }
+  return report.passed ? 0 : 1;
+}
+
+async function runAnalysis(
+  logs: ProfileLog[],
+  options: CliOptions
+): Promise<void> {
+  const apiKey = process.env.RN_PROFILER_API_KEY;
+  if (!apiKey) {
+    throw new Error("Set RN_PROFILER_API_KEY to run the analysis");
+  }
+
+  const sourceRoot = path.resolve(options["source-root"] || ".");
+  let located: Promise<Map<string, string>> | undefined;
+  const analyzer = new LogAnalyzer({
+    apiKey,
+    provider:
+      options.provider || process.env.RN_PROFILER_API_PROVIDER || "openai",
+    getComponentSource: async (componentId) => {
+      // One scan of the source root covers every component in the logs
+      located =
+        located ||
+        locateComponentFiles(
+          sourceRoot,
+          Array.from(new Set(logs.map((log) => log.id)))
+        );
+      const file = (await located).get(componentId);
+      return file ? readSource(file) : null;
+    },
+  });
+
+  console.error(`Analyzing ${logs.length} logs...`);
+  const { markdown: analysis } = extractFindings(await analyzer.analyze(logs));
+  if (options.report) {
+    await fs.promises.writeFile(options.report, analysis, "utf8");
+    console.log(`Wrote analysis to ${options.report}`);
+  } else {
+    console.log(analysis);
+  }
+}
+
+/**
+ * Finds the files under sourceRoot that declare logged components, the way
+ * the extension's ComponentLocator does: "path::Name" ids name their file,
+ * other ids are matched against withProfiler ids and component names.
+ * Returns component id -> absolute file path, never outside sourceRoot
+ */
+async function locateComponentFiles(
+  sourceRoot: string,
+  ids: string[]
+): Promise<Map<string, string>> {
+  const located = new Map<string, string>();
+  const declares = (file: string, content: string, id: string, name: string) =>
+    parseDeclarations(file, content).some(
+      (declaration) =>
+        declaration.name === name || declaration.profilerId === id
+    );
+
+  for (const id of ids.filter((id) => id.includes("::"))) {
+    const [filePath, name] = id.split("::");
+    const file = path.resolve(sourceRoot, filePath);
+    const content = isInside(sourceRoot, file)
+      ? await readSource(file)
+      : null;
+    if (content && declares(file, content, id, name)) {
+      located.set(id, file);
+    }
+  }
+
+  const byName = ids.filter((id) => !id.includes("::"));
+  if (byName.length === 0) {
+    return located;
+  }
+  for (const file of await listSourceFiles(sourceRoot)) {
+    const content = await readSource(file);
+    if (!content) {
+      continue;
+    }
+    for (const id of byName) {
+      if (
+        !located.has(id) &&
+        content.includes(id) &&
+        declares(file, content, id, id)
+      ) {
+        located.set(id, file);
+      }
+    }
+  }
+  return located;
+}
+
+/**
+ * Lists source files under a directory, skipping dependencies and build
+ * output, up to MAX_SOURCE_FILES
+ */
+async function listSourceFiles(root: string): Promise<string[]> {
+  const files: string[] = [];
+  const pending = [root];
+  while (pending.length > 0 && files.length < MAX_SOURCE_FILES) {
+    const dir = pending.shift()!;
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      continue;
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory() && !EXCLUDED_DIRS.has(entry.name)) {
+        pending.push(entryPath);
+      } else if (
+        entry.isFile() &&
+        SOURCE_EXTENSIONS.has(path.extname(entry.name)) &&
+        files.length < MAX_SOURCE_FILES
+      ) {
+        files.push(entryPath);
+      }
+    }
+  }
+  return files;
+}
+
+function parseDeclarations(file: string, content: string) {
+  try {
+    return findComponentDeclarations(content, path.basename(file));
+  } catch (error) {
+    return [];
+  }
+}
+
+async function readSource(file: string): Promise<string | null> {
+  try {
+    return await fs.promises.readFile(file, "utf8");
+  } catch (error) {
+    return null;
+  }
+}
+
+function isInside(root: string, file: string): boolean {
+  const relative = path.relative(root, file);
+  return (
+    relative !== "" &&
+    relative.split(path.sep)[0] !== ".." &&
+    !path.isAbsolute(relative)
+  );
+}
+
+async function writeSessionFile(
+  file: string,
+  session: SessionInfo,
+  logs: ProfileLog[]
+): Promise<void> {
+  await fs.promises.mkdir(path.dirname(path.resolve(file)), {
+    recursive: true,
+  });
+  await fs.promises.writeFile(
+    file,
+    JSON.stringify({ session, logs }, null, 2),
+    "utf8"
+  );
+}
+
+function parseNumber(
+  value: string | undefined,
+  flag: string,
+  fallback: number
+): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new UsageError(`${flag} expects a non-negative number`);
+  }
+  return number;
+}
+
+main(process.argv.slice(2)).then(
+  (exitCode) => {
+    process.exitCode = exitCode;
+  },
+  (error) => {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exitCode = 2;
+    } else {
+      console.error(`rn-profiler: ${error.message || error}`);
+      process.exitCode = 1;
+    }
+  }
+);
@@ -0,0 +1,79 @@
+import { ProfileLog, RenderPhase } from "./types";
+import { RecordingSession } from "./recordingSession";
+
+/**
+ * One component render within a commit
+ */
+export interface CommitRender {
+  id: string;
+  phase: RenderPhase;
+  actualDuration: number;
+  baseDuration: number;
+}
+
+/**
+ * Renders React committed together on one device. React reports the same
+ * commitTime (and startTime) to every Profiler rendered in a commit, so logs
+ * sharing a commitTime on a device belong to the same commit
+ */
+export interface Commit {
+  clientId: string;
+  commitTime: number; // On the device's clock
+  timestamp: string; // Wall-clock time of the earliest log, ISO string
+  duration: number; // Render phase of the commit, at least its longest render
+  totalActualDuration: number; // Sum over renders; nested renders count twice
+  renders: CommitRender[]; // Longest first
+}
+
+/**
+ * Groups logs into commits, ordered by when they happened
+ */
+export function groupCommits(logs: ProfileLog[]): Commit[] {
+  const groups = new Map<string, ProfileLog[]>();
+  for (const log of logs) {
+    const clientId = log.clientId || RecordingSession.fallbackClientId(log);
+    const key = `${clientId}:${log.commitTime}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(log);
+    } else {
+      groups.set(key, [log]);
+    }
+  }
+
+  const commits: Commit[] = [];
+  for (const commitLogs of groups.values()) {
+    const first = commitLogs[0];
+    const start = Math.min(...commitLogs.map((log) => log.startTime));
+    const renders = commitLogs
+      .map(({ id, phase, actualDuration, baseDuration }) => ({
+        id,
+        phase,
+        actualDuration,
+        baseDuration,
+      }))
+      .sort((a, b) => b.actualDuration - a.actualDuration);
+
+    commits.push({
+      clientId: first.clientId || RecordingSession.fallbackClientId(first),
+      commitTime: first.commitTime,
+      timestamp: commitLogs
+        .map((log) => log.timestamp)
+        .reduce((earliest, timestamp) =>
+          Date.parse(timestamp) < Date.parse(earliest) ? timestamp : earliest
+        ),
+      duration: Math.max(first.commitTime - start, renders[0].actualDuration),
+      totalActualDuration: renders.reduce(
+        (sum, render) => sum + render.actualDuration,
+        0
+      ),
+      renders,
+    });
+  }
+
+  return commits.sort(
+    (a, b) =>
+      Date.parse(a.timestamp) - Date.parse(b.timestamp) ||
+      a.commitTime - b.commitTime
+  );
+}
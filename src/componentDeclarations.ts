@@ -0,0 +1,468 @@
+import { parse } from "@babel/parser";
+import traverse, { Scope } from "@babel/traverse";
+import * as t from "@babel/types";
+import { ComponentDeclaration } from "./types";
+
+/**
+ * Finds the React components a file declares, with the position of each
+ * declaration's name. Components passed to withProfiler (e.g.
+ * `export default withProfiler(List, 'List')`) are included and carry the
+ * id their renders are logged under. Throws if the source can't be parsed
+ * @param content - Source of the file
+ * @param fileName - Name of the file (for generating names for anonymous exports)
+ */
+export function findComponentDeclarations(
+  content: string,
+  fileName: string
+): ComponentDeclaration[] {
+  const components = new Map<string, ComponentDeclaration>();
+  const add = (
+    name: string,
+    loc: t.SourceLocation | null | undefined,
+    defaultExport = false
+  ) => {
+    if (!components.has(name)) {
+      components.set(name, {
+        name,
+        line: loc ? loc.start.line - 1 : 0,
+        column: loc ? loc.start.column : 0,
+      });
+    }
+    if (defaultExport) {
+      components.get(name)!.defaultExport = true;
+    }
+  };
+  const wrapped = new Map<string, string>(); // Component name -> profiler id
+  let programScope: Scope | undefined;
+
+  // Parse with TypeScript and JSX support
+  // Add timeout protection by limiting parsing options
+  const ast = parse(content, {
+    sourceType: "module",
+    plugins: ["jsx", "typescript", "decorators-legacy", "classProperties"],
+    errorRecovery: true,
+    // Limit tokens to prevent hanging on malformed files
+    tokens: false, // Don't store tokens to save memory
+  });
+
+
+  traverse(ast, {
+    Program(path) {
+      programScope = path.scope;
+    },
+
+    // Handle: export default function ComponentName() {}
+    ExportDefaultDeclaration(path) {
+      const declaration = path.node.declaration;
+      if (t.isFunctionDeclaration(declaration) && declaration.id) {
+        const name = declaration.id.name;
+        if (isReactComponent(name, declaration)) {
+          add(name, declaration.id.loc, true);
+        }
+      } else if (t.isClassDeclaration(declaration) && declaration.id) {
+        // Class components
+        const name = declaration.id.name;
+        if (isReactClassComponent(declaration)) {
+          add(name, declaration.id.loc, true);
+        }
+      } else if (t.isIdentifier(declaration)) {
+        // export default ComponentName
+        const binding = path.scope.getBinding(declaration.name);
+        add(declaration.name, (binding?.identifier || declaration).loc, true);
+      } else if (
+        t.isCallExpression(declaration) &&
+        isWithProfilerCall(declaration) &&
+        t.isIdentifier(declaration.arguments[0])
+      ) {
+        // export default withProfiler(ComponentName, 'id')
+        const name = declaration.arguments[0].name;
+        const binding = path.scope.getBinding(name);
+        if (binding) {
+          add(name, binding.identifier.loc, true);
+        }
+      } else if (
+        t.isArrowFunctionExpression(declaration) ||
+        t.isFunctionExpression(declaration)
+      ) {
+        // Anonymous default export - check if it's a component and use filename as name
+        if (isComponentExpression(declaration)) {
+          // Generate component name from filename
+          // e.g., _layout.tsx -> Layout, index.tsx -> Index
+          const pathModule = require("path");
+          const baseName = pathModule.basename(
+            fileName,
+            pathModule.extname(fileName)
+          );
+          let componentName = baseName
+            .replace(/^_+/, "") // Remove leading underscores
+            .replace(/^[a-z]/, (char: string) => char.toUpperCase()); // Capitalize first letter
+
+          // If name is empty or just underscores, use "Component"
+          if (!componentName || componentName === "") {
+            componentName = "Component";
+          }
+
+          add(componentName, declaration.loc, true);
+        }
+      }
+    },
+
+    // Handle: export function ComponentName() {} or export const ComponentName = ...
+    ExportNamedDeclaration(path) {
+      if (path.node.exportKind === "type") {
+        return; // Skip type exports
+      }
+
+      const declaration = path.node.declaration;
+
+      // export function ComponentName() {}
+      if (t.isFunctionDeclaration(declaration) && declaration.id) {
+        const name = declaration.id.name;
+        if (isReactComponent(name, declaration)) {
+          add(name, declaration.id.loc);
+        }
+      }
+      // export class ComponentName {}
+      else if (t.isClassDeclaration(declaration) && declaration.id) {
+        const name = declaration.id.name;
+        if (isReactClassComponent(declaration)) {
+          add(name, declaration.id.loc);
+        }
+      }
+      // export const ComponentName = ...
+      else if (t.isVariableDeclaration(declaration)) {
+        for (const declarator of declaration.declarations) {
+          if (t.isIdentifier(declarator.id)) {
+            const name = declarator.id.name;
+            // Check if it's a component (arrow function, function expression, or React.memo/forwardRef)
+            if (isComponentVariable(declarator.init, name)) {
+              add(name, declarator.id.loc);
+            }
+          }
+        }
+      }
+    },
+
+    // Handle: withProfiler(ComponentName, 'id') anywhere in the file
+    CallExpression(path) {
+      const args = path.node.arguments;
+      if (
+        isWithProfilerCall(path.node) &&
+        args.length > 0 &&
+        t.isIdentifier(args[0])
+      ) {
+        wrapped.set(
+          args[0].name,
+          args.length > 1 && t.isStringLiteral(args[1])
+            ? args[1].value
+            : args[0].name
+        );
+      }
+    },
+  });
+
+  for (const [name, profilerId] of wrapped) {
+    const binding = programScope?.getBinding(name);
+    if (binding) {
+      add(name, binding.identifier.loc);
+    }
+    const component = components.get(name);
+    if (component) {
+      component.profilerId = profilerId;
+    }
+  }
+
+  return Array.from(components.values());
+}
+
+/**
+ * Checks if a call is withProfiler(...) or something.withProfiler(...)
+ */
+function isWithProfilerCall(call: t.CallExpression): boolean {
+  const callee = call.callee;
+  return (
+    (t.isIdentifier(callee) && callee.name === "withProfiler") ||
+    (t.isMemberExpression(callee) &&
+      t.isIdentifier(callee.property) &&
+      callee.property.name === "withProfiler")
+  );
+}
+
+/**
+ * Checks if a function declaration is a React component
+ */
+function isReactComponent(name: string, func: t.FunctionDeclaration): boolean {
+  // Must start with uppercase (React component convention)
+  if (!name || name[0] !== name[0].toUpperCase()) {
+    return false;
+  }
+
+  // If it's an exported function with uppercase name, it's very likely a component
+  // Check if function body contains JSX or returns JSX, but be lenient
+  if (func.body && t.isBlockStatement(func.body)) {
+    // Look for JSX in return statements
+    let hasJSX = false;
+    let hasReturn = false;
+
+    try {
+      traverse(
+        func.body,
+        {
+          ReturnStatement(path) {
+            hasReturn = true;
+            if (hasJSXElement(path.node.argument)) {
+              hasJSX = true;
+              path.stop();
+            }
+          },
+          JSXElement() {
+            hasJSX = true;
+          },
+          JSXFragment() {
+            hasJSX = true;
+          },
+          // Also check for JSX in variable assignments (e.g., const element = <div />)
+          VariableDeclarator(path) {
+            if (hasJSXElement(path.node.init)) {
+              hasJSX = true;
+            }
+          },
+        },
+        undefined,
+        func.body
+      );
+    } catch (error) {
+      // If traversal fails, assume it's a component if name starts with uppercase
+      console.warn(`Error traversing function body for ${name}:`, error);
+      return true; // Be lenient - if it starts with uppercase, assume component
+    }
+
+    // If we found JSX, definitely a component
+    if (hasJSX) {
+      return true;
+    }
+
+    // If there's a return statement but we couldn't detect JSX,
+    // still consider it a component (might be returning a component reference)
+    // This handles cases like: return <Component /> or return Component
+    if (hasReturn) {
+      return true;
+    }
+
+    // If no return but has body, might still be a component (early returns, etc.)
+    // Be lenient for uppercase names
+    return true;
+  }
+
+  // No body or empty body - not a component
+  return false;
+}
+
+/**
+ * Checks if a class declaration is a React component
+ */
+function isReactClassComponent(classDecl: t.ClassDeclaration): boolean {
+  if (
+    !classDecl.id ||
+    classDecl.id.name[0] !== classDecl.id.name[0].toUpperCase()
+  ) {
+    return false;
+  }
+
+  // Check if it extends React.Component or Component
+  if (classDecl.superClass) {
+    if (t.isIdentifier(classDecl.superClass)) {
+      const superName = classDecl.superClass.name;
+      if (superName === "Component" || superName === "PureComponent") {
+        return true;
+      }
+    } else if (t.isMemberExpression(classDecl.superClass)) {
+      if (
+        t.isIdentifier(classDecl.superClass.object) &&
+        classDecl.superClass.object.name === "React" &&
+        t.isIdentifier(classDecl.superClass.property)
+      ) {
+        const propName = classDecl.superClass.property.name;
+        if (propName === "Component" || propName === "PureComponent") {
+          return true;
+        }
+      }
+    }
+  }
+
+  // Check for render method that returns JSX
+  if (classDecl.body && t.isClassBody(classDecl.body)) {
+    for (const method of classDecl.body.body) {
+      if (
+        t.isClassMethod(method) &&
+        t.isIdentifier(method.key) &&
+        method.key.name === "render"
+      ) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Checks if a variable initializer is a React component
+ */
+function isComponentVariable(
+  init: t.Node | null | undefined,
+  name: string
+): boolean {
+  if (!init || !name || name[0] !== name[0].toUpperCase()) {
+    return false;
+  }
+
+  // Arrow function or function expression
+  if (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init)) {
+    // Check if it returns JSX
+    if (t.isArrowFunctionExpression(init)) {
+      if (t.isJSXElement(init.body) || t.isJSXFragment(init.body)) {
+        return true;
+      }
+      if (t.isBlockStatement(init.body)) {
+        let hasJSX = false;
+        traverse(
+          init.body,
+          {
+            ReturnStatement(path) {
+              if (hasJSXElement(path.node.argument)) {
+                hasJSX = true;
+                path.stop();
+              }
+            },
+          },
+          undefined,
+          init.body
+        );
+        return hasJSX;
+      }
+    }
+    return true; // Assume function expressions are components if name starts with uppercase
+  }
+
+  // React.memo, React.forwardRef, etc.
+  if (t.isCallExpression(init)) {
+    if (t.isIdentifier(init.callee)) {
+      const calleeName = init.callee.name;
+      if (["memo", "forwardRef", "lazy"].includes(calleeName)) {
+        return true;
+      }
+    } else if (t.isMemberExpression(init.callee)) {
+      if (
+        t.isIdentifier(init.callee.property) &&
+        ["memo", "forwardRef", "lazy"].includes(init.callee.property.name)
+      ) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Checks if a function/arrow function expression is a React component
+ */
+function isComponentExpression(
+  node: t.ArrowFunctionExpression | t.FunctionExpression
+): boolean {
+  // Arrow function with direct JSX return
+  if (t.isArrowFunctionExpression(node)) {
+    if (t.isJSXElement(node.body) || t.isJSXFragment(node.body)) {
+      return true;
+    }
+    // Arrow function with block that returns JSX
+    if (t.isBlockStatement(node.body)) {
+      let hasJSX = false;
+      traverse(
+        node.body,
+        {
+          ReturnStatement(path) {
+            if (hasJSXElement(path.node.argument)) {
+              hasJSX = true;
+              path.stop();
+            }
+          },
+          JSXElement() {
+            hasJSX = true;
+          },
+          JSXFragment() {
+            hasJSX = true;
+          },
+        },
+        undefined,
+        node.body
+      );
+      return hasJSX;
+    }
+  }
+
+  // Function expression with block that returns JSX
+  if (t.isFunctionExpression(node) && t.isBlockStatement(node.body)) {
+    let hasJSX = false;
+    traverse(
+      node.body,
+      {
+        ReturnStatement(path) {
+          if (hasJSXElement(path.node.argument)) {
+            hasJSX = true;
+            path.stop();
+          }
+        },
+        JSXElement() {
+          hasJSX = true;
+        },
+        JSXFragment() {
+          hasJSX = true;
+        },
+      },
+      undefined,
+      node.body
+    );
+    return hasJSX;
+  }
+
+  return false;
+}
+
+/**
+ * Checks if a node contains JSX
+ */
+function hasJSXElement(node: t.Node | null | undefined): boolean {
+  if (!node) return false;
+
+  // Direct JSX elements
+  if (t.isJSXElement(node) || t.isJSXFragment(node)) return true;
+
+  // JSX in nested structures
+  if (t.isParenthesizedExpression(node)) {
+    return hasJSXElement(node.expression);
+  }
+
+  // Call expressions could be React.createElement (JSX transform)
+  if (t.isCallExpression(node)) {
+    // Check if it's React.createElement or similar
+    if (t.isMemberExpression(node.callee)) {
+      if (
+        t.isIdentifier(node.callee.object) &&
+        node.callee.object.name === "React" &&
+        t.isIdentifier(node.callee.property) &&
+        node.callee.property.name === "createElement"
+      ) {
+        return true;
+      }
+    }
+    // Could be JSX transform - be lenient
+    return true;
+  }
+
+  // Identifier could be a component reference (e.g., return <Component />)
+  // We'll let the caller decide based on context
+
+  return false;
+}
@@ -0,0 +1,128 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ComponentTreeProvider } from "./componentTreeProvider";
+import { ComponentDeclaration } from "./types";
+
+// Files searched for the declarations of components logged by name
+const COMPONENT_FILES = "**/*.{tsx,ts,jsx,js}";
+const EXCLUDED_FILES = "**/{node_modules,.git,build,dist,.expo}/**";
+const MAX_FILES = 5000;
+
+/**
+ * The declaration a logged component id was found at
+ */
+export interface LocatedComponent {
+  uri: vscode.Uri;
+  declaration: ComponentDeclaration;
+  id: string; // The logged id it matched
+}
+
+/**
+ * Finds the declarations of logged component ids in the workspace.
+ * "path::Name" ids name their file; other ids are matched against
+ * withProfiler ids and component names in the workspace's source files.
+ * Each file is parsed once and its declarations cached until a file
+ * watcher reports it changed (including on save) or deleted
+ */
+export class ComponentLocator implements vscode.Disposable {
+  private componentTreeProvider: ComponentTreeProvider;
+  private declarations = new Map<string, ComponentDeclaration[]>(); // By URI
+  private files: Thenable<vscode.Uri[]> | undefined;
+  private watcher: vscode.FileSystemWatcher;
+
+  constructor(componentTreeProvider: ComponentTreeProvider) {
+    this.componentTreeProvider = componentTreeProvider;
+    this.watcher = vscode.workspace.createFileSystemWatcher(COMPONENT_FILES);
+    this.watcher.onDidChange((uri) => this.declarations.delete(uri.toString()));
+    this.watcher.onDidCreate(() => (this.files = undefined));
+    this.watcher.onDidDelete((uri) => {
+      this.declarations.delete(uri.toString());
+      this.files = undefined;
+    });
+  }
+
+  async locate(ids: string[]): Promise<LocatedComponent[]> {
+    const located: LocatedComponent[] = [];
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (
+      ids.length === 0 ||
+      !workspaceFolders ||
+      workspaceFolders.length === 0
+    ) {
+      return located;
+    }
+
+    const byPath = ids.filter((id) => id.includes("::"));
+    const byName = new Set(ids.filter((id) => !id.includes("::")));
+    for (const id of byPath) {
+      const [filePath, name] = id.split("::");
+      const root = workspaceFolders[0].uri;
+      const uri = vscode.Uri.joinPath(root, filePath);
+      if (!uri.path.startsWith(root.path.replace(/\/$/, "") + "/")) {
+        continue; // Ids come from devices; "../" mustn't leave the workspace
+      }
+      const declaration = (await this.readDeclarations(uri)).find(
+        (candidate) => candidate.name === name
+      );
+      if (declaration) {
+        located.push({ uri, declaration, id });
+      }
+    }
+    if (byName.size === 0) {
+      return located;
+    }
+
+    this.files =
+      this.files ||
+      vscode.workspace.findFiles(COMPONENT_FILES, EXCLUDED_FILES, MAX_FILES);
+    for (const uri of await this.files) {
+      for (const declaration of await this.readDeclarations(uri)) {
+        const id = [declaration.profilerId, declaration.name].find(
+          (candidate) => candidate !== undefined && byName.has(candidate)
+        );
+        if (id) {
+          located.push({ uri, declaration, id });
+        }
+      }
+    }
+    return located;
+  }
+
+  dispose() {
+    this.watcher.dispose();
+  }
+
+  private async readDeclarations(
+    uri: vscode.Uri
+  ): Promise<ComponentDeclaration[]> {
+    const key = uri.toString();
+    let declarations = this.declarations.get(key);
+    if (!declarations) {
+      const content = await this.readFile(uri);
+      declarations = content ? this.parse(content, uri) : [];
+      this.declarations.set(key, declarations);
+    }
+    return declarations;
+  }
+
+  private async readFile(uri: vscode.Uri): Promise<string | undefined> {
+    try {
+      return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString(
+        "utf8"
+      );
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private parse(content: string, uri: vscode.Uri): ComponentDeclaration[] {
+    try {
+      return this.componentTreeProvider.findComponentDeclarations(
+        content,
+        path.basename(uri.fsPath)
+      );
+    } catch (error) {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,225 @@
+import { ProfileLog, SessionInfo } from "./types";
+import { RecordingSession } from "./recordingSession";
+
+// Operation codes from the React DevTools tree operations encoding
+const TREE_OPERATION_ADD = 1;
+const TREE_OPERATION_REMOVE = 2;
+const TREE_OPERATION_REORDER_CHILDREN = 3;
+const TREE_OPERATION_UPDATE_TREE_BASE_DURATION = 4;
+const TREE_OPERATION_UPDATE_ERRORS_OR_WARNINGS = 5;
+const TREE_OPERATION_REMOVE_ROOT = 6;
+const TREE_OPERATION_SET_SUBTREE_MODE = 7;
+const ELEMENT_TYPE_ROOT = 11;
+
+// All logs of an import are attributed to one pseudo-device
+const IMPORT_CLIENT_ID = "react-devtools";
+
+/**
+ * Subset of a React DevTools Profiler export ("Save profile..." in the
+ * Profiler tab) that the importer reads
+ */
+interface DevToolsProfile {
+  version: number;
+  dataForRoots: DevToolsRoot[];
+}
+
+interface DevToolsRoot {
+  rootID: number;
+  displayName: string;
+  commitData: DevToolsCommit[];
+  initialTreeBaseDurations: [number, number][];
+  operations: number[][]; // One encoded operations array per commit
+  snapshots: [number, { displayName: string | null }][];
+}
+
+interface DevToolsCommit {
+  duration: number;
+  timestamp: number; // ms since profiling started
+  fiberActualDurations: [number, number][];
+  changeDescriptions: [number, { isFirstMount?: boolean }][] | null;
+}
+
+/**
+ * A DevTools profile converted into a session and its logs
+ */
+export interface ImportedProfile {
+  session: SessionInfo;
+  logs: ProfileLog[];
+  commitCount: number;
+}
+
+/**
+ * Converts a React DevTools Profiler export into ProfileLogs: one log per
+ * component rendered in each commit. Commit timestamps are relative to when
+ * profiling started, which the export doesn't record, so they are anchored
+ * at `startedAt` (the file's modification time is a reasonable choice).
+ */
+export function convertDevToolsProfile(
+  data: unknown,
+  startedAt: Date = new Date()
+): ImportedProfile {
+  const profile = data as DevToolsProfile;
+  if (
+    !profile ||
+    typeof profile !== "object" ||
+    !Array.isArray(profile.dataForRoots)
+  ) {
+    throw new Error(
+      "Not a React DevTools profile: expected a dataForRoots array"
+    );
+  }
+  if (profile.version < 4) {
+    throw new Error(
+      `Unsupported React DevTools profile version ${profile.version}; re-export it with a current DevTools`
+    );
+  }
+
+  const deviceInfo = {
+    os: "react-devtools",
+    version: String(profile.version),
+  };
+  const logs: ProfileLog[] = [];
+  let commitCount = 0;
+
+  for (const root of profile.dataForRoots) {
+    const names = new Map<number, string>();
+    const baseDurations = new Map<number, number>(
+      root.initialTreeBaseDurations || []
+    );
+    const rendered = new Set<number>();
+    for (const [fiberId, node] of root.snapshots || []) {
+      names.set(fiberId, node.displayName || "Anonymous");
+      // Fibers in the initial snapshot were mounted before profiling started
+      rendered.add(fiberId);
+    }
+
+    root.commitData.forEach((commit, index) => {
+      commitCount += 1;
+      const added = decodeOperations(
+        root.operations?.[index] || [],
+        names,
+        baseDurations
+      );
+      const firstMounts = new Set(
+        (commit.changeDescriptions || [])
+          .filter(([, change]) => change.isFirstMount)
+          .map(([fiberId]) => fiberId)
+      );
+
+      for (const [fiberId, actualDuration] of commit.fiberActualDurations) {
+        if (fiberId === root.rootID) {
+          continue;
+        }
+
+        const isMount =
+          firstMounts.has(fiberId) ||
+          added.has(fiberId) ||
+          !rendered.has(fiberId);
+        rendered.add(fiberId);
+
+        logs.push({
+          id: names.get(fiberId) || `Fiber#${fiberId}`,
+          phase: isMount ? "mount" : "update",
+          actualDuration,
+          baseDuration: baseDurations.get(fiberId) ?? actualDuration,
+          startTime: commit.timestamp - commit.duration,
+          commitTime: commit.timestamp,
+          timestamp: new Date(
+            startedAt.getTime() + commit.timestamp
+          ).toISOString(),
+          deviceInfo,
+          clientId: IMPORT_CLIENT_ID,
+        });
+      }
+    });
+  }
+
+  logs.sort((a, b) => a.commitTime - b.commitTime);
+
+  const session = new RecordingSession(undefined, {
+    maxLogs: Math.max(logs.length, 1),
+  });
+  logs.forEach((log) => session.addLog(log));
+  session.end();
+
+  // Span the profile itself rather than the time of the import
+  const lastLog = logs[logs.length - 1];
+  return {
+    session: {
+      ...session.getInfo(),
+      startTime: startedAt.toISOString(),
+      endTime: lastLog ? lastLog.timestamp : startedAt.toISOString(),
+    },
+    logs,
+    commitCount,
+  };
+}
+
+/**
+ * Reads component names and tree base durations from one commit's encoded
+ * operations, returning the ids of fibers added in that commit. Decoding
+ * stops at an unknown operation, since its length can't be known; names
+ * collected so far are kept and the rest fall back to Fiber#<id>
+ */
+function decodeOperations(
+  operations: number[],
+  names: Map<number, string>,
+  baseDurations: Map<number, number>
+): Set<number> {
+  const added = new Set<number>();
+
+  // Header: renderer id, root id, then the string table
+  let i = 2;
+  const stringTableSize = operations[i++] || 0;
+  const strings: string[] = [];
+  const stringTableEnd = i + stringTableSize;
+  while (i < stringTableEnd) {
+    const length = operations[i++];
+    strings.push(String.fromCharCode(...operations.slice(i, i + length)));
+    i += length;
+  }
+
+  while (i < operations.length) {
+    switch (operations[i]) {
+      case TREE_OPERATION_ADD: {
+        const fiberId = operations[i + 1];
+        const type = operations[i + 2];
+        added.add(fiberId);
+        if (type !== ELEMENT_TYPE_ROOT) {
+          // parentId, ownerId, displayNameStringId, keyStringId
+          const displayNameId = operations[i + 5];
+          if (displayNameId > 0) {
+            names.set(fiberId, strings[displayNameId - 1]);
+          }
+        }
+        // Roots carry four flags instead of the ids above; both are 7 long
+        i += 7;
+        break;
+      }
+      case TREE_OPERATION_REMOVE:
+        i += 2 + operations[i + 1];
+        break;
+      case TREE_OPERATION_REORDER_CHILDREN:
+        i += 3 + operations[i + 2];
+        break;
+      case TREE_OPERATION_UPDATE_TREE_BASE_DURATION:
+        // Encoded in microseconds as an integer
+        baseDurations.set(operations[i + 1], operations[i + 2] / 1000);
+        i += 3;
+        break;
+      case TREE_OPERATION_UPDATE_ERRORS_OR_WARNINGS:
+        i += 4;
+        break;
+      case TREE_OPERATION_REMOVE_ROOT:
+        i += 1;
+        break;
+      case TREE_OPERATION_SET_SUBTREE_MODE:
+        i += 3;
+        break;
+      default:
+        return added;
+    }
+  }
+
+  return added;
+}
@@ -1,13 +1,40 @@
 import * as vscode from "vscode";
+import * as crypto from "crypto";
+import * as path from "path";
 import { ProfilerPanel } from "./profilerPanel";
 import { ProfilerServer } from "./profilerServer";
 import { ComponentTreeProvider } from "./componentTreeProvider";
-import { ProfileLog } from "./types";
+import { SessionRepository } from "./sessionRepository";
+import { renderRuntimeConfig } from "./runtimeConfig";
+import { ServerEndpoints, getServerEndpoints } from "./serverAddress";
+import { convertDevToolsProfile } from "./devtoolsImporter";
+import { toChromeTrace } from "./traceExporter";
+import {
+  RecordingSessionOptions,
+  DEFAULT_MAX_LOGS,
+} from "./recordingSession";
+import { ProfileLog, ControlClientInfo, SessionInfo, TimeRange } from "./types";
+import { filterByTimeRange } from "./timeRange";
+import { ActiveSession } from "./activeSession";
+import {
+  RenderCodeLensProvider,
+  COMPONENT_FILE_SELECTOR,
+} from "./renderCodeLensProvider";
+import { RenderHoverProvider } from "./renderHoverProvider";
+import { RenderDiagnostics } from "./renderDiagnostics";
+import { ComponentLocator } from "./componentLocator";
+import { MemoizationCodeActionProvider } from "./memoizationCodeActionProvider";
 
 let profilerPanel: ProfilerPanel | undefined;
 let profilerServer: ProfilerServer | undefined;
 let componentTreeProvider: ComponentTreeProvider | undefined;
+let sessionRepository: SessionRepository | undefined;
+let activeSession: ActiveSession;
+let authToken: string;
+let serverEndpoints: ServerEndpoints;
 let outputChannel: vscode.OutputChannel;
+// Server settings changed during a recording; applied once it stops
+let serverSettingsChanged = false;
 
 export async function activate(context: vscode.ExtensionContext) {
   try {
@@ -39,7 +66,105 @@ export async function activate(context: vscode.ExtensionContext) {
 
     // Initialize component tree provider
     componentTreeProvider = new ComponentTreeProvider(context);
+
+    // Per-workspace token the runtime must present to the profiler server
+    authToken = getOrCreateAuthToken(context);
+    ProfilerPanel.setAuthToken(authToken);
+
+    // Server URLs per target (simulator, emulator, LAN) for the runtime config
+    updateServerEndpoints();
+    context.subscriptions.push(
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (
+          event.affectsConfiguration("rnProfilerAI.serverPort") ||
+          event.affectsConfiguration("rnProfilerAI.serverPortRange") ||
+          event.affectsConfiguration("rnProfilerAI.bindAddress")
+        ) {
+          updateServerEndpoints();
+        }
+        if (
+          event.affectsConfiguration("rnProfilerAI.serverPort") ||
+          event.affectsConfiguration("rnProfilerAI.serverPortRange") ||
+          event.affectsConfiguration("rnProfilerAI.bindAddress") ||
+          event.affectsConfiguration("rnProfilerAI.rateLimitPerSecond")
+        ) {
+          restartServerWhenIdle();
+        }
+      })
+    );
+
+    // Recorded sessions are persisted under <workspace>/.rn-profiler/sessions
+    if (workspaceFolders && workspaceFolders.length > 0) {
+      sessionRepository = SessionRepository.forWorkspace(
+        workspaceFolders[0].uri.fsPath
+      );
+    }
     
+    // Render data of the last session, shown in the editor on components
+    activeSession = new ActiveSession();
+    ProfilerPanel.setActiveSession(activeSession);
+    // Shared so diagnostics and AI analysis reuse its declaration cache
+    const componentLocator = new ComponentLocator(componentTreeProvider);
+    ProfilerPanel.setComponentLocator(componentLocator);
+    const codeLensProvider = new RenderCodeLensProvider(
+      componentTreeProvider,
+      activeSession
+    );
+    const renderDiagnostics = new RenderDiagnostics(
+      componentLocator,
+      activeSession
+    );
+    const refreshDiagnostics = () =>
+      renderDiagnostics.refresh().catch((error: any) => {
+        outputChannel.appendLine(
+          `Failed to update render diagnostics: ${error.message}`
+        );
+      });
+    context.subscriptions.push(
+      activeSession,
+      componentLocator,
+      codeLensProvider,
+      renderDiagnostics,
+      vscode.languages.registerCodeLensProvider(
+        COMPONENT_FILE_SELECTOR,
+        codeLensProvider
+      ),
+      vscode.languages.registerHoverProvider(
+        COMPONENT_FILE_SELECTOR,
+        new RenderHoverProvider(componentTreeProvider, activeSession)
+      ),
+      vscode.languages.registerCodeActionsProvider(
+        COMPONENT_FILE_SELECTOR,
+        new MemoizationCodeActionProvider(componentTreeProvider, activeSession),
+        {
+          providedCodeActionKinds:
+            MemoizationCodeActionProvider.providedCodeActionKinds,
+        }
+      ),
+      activeSession.onDidChange(() => {
+        codeLensProvider.refresh();
+        refreshDiagnostics();
+      }),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("rnProfilerAI.showCodeLens")) {
+          codeLensProvider.refresh();
+        }
+        if (
+          event.affectsConfiguration("rnProfilerAI.showDiagnostics") ||
+          event.affectsConfiguration("rnProfilerAI.slowRenderThresholds")
+        ) {
+          refreshDiagnostics();
+        }
+      })
+    );
+    if (sessionRepository) {
+      activeSession.loadLatest(sessionRepository).catch((error: any) => {
+        outputChannel.appendLine(
+          `Failed to load the last session: ${error.message}`
+        );
+      });
+    }
+
     // Set output channel for all modules
     ProfilerPanel.setOutputChannel(outputChannel);
     // Import and set output channel for ComponentTreeProvider
@@ -56,82 +181,94 @@ export async function activate(context: vscode.ExtensionContext) {
         // Always use createOrShow - it handles checking for existing panels
         profilerPanel = ProfilerPanel.createOrShow(
           context.extensionUri,
-          componentTreeProvider!
+          componentTreeProvider!,
+          sessionRepository
         );
+        // A panel opened mid-recording picks up live logs from here on
+        if (profilerServer?.isRecording()) {
+          profilerPanel.setServer(profilerServer);
+        }
       }
     );
 
     const startRecordingCommand = vscode.commands.registerCommand(
       "rnProfilerAI.startRecording",
       async () => {
-        if (!profilerServer) {
+        if (!profilerServer?.isRecording()) {
           const config = vscode.workspace.getConfiguration("rnProfilerAI");
           const port = config.get<number>("serverPort", 1337);
 
           try {
-            profilerServer = new ProfilerServer(port);
-            await profilerServer.start();
-
-            if (profilerPanel) {
-              profilerPanel.setServer(profilerServer);
-              profilerPanel.sendMessage({ type: "recordingStarted" });
-
-              // Set up periodic log updates
-              const logUpdateInterval = setInterval(() => {
-                if (profilerServer && profilerPanel) {
-                  const logs = profilerServer.getLogs();
-                  profilerPanel.sendMessage({
-                    type: "logsUpdate",
-                    logs: logs,
-                  });
-                } else {
-                  clearInterval(logUpdateInterval);
-                }
-              }, 1000);
-
-              // Store interval for cleanup
-              context.subscriptions.push({
-                dispose: () => clearInterval(logUpdateInterval),
+            // The server outlives individual recordings so app runtimes can
+            // stay connected to the control channel between them
+            if (!profilerServer) {
+              profilerServer = new ProfilerServer(port, {
+                host: config.get<string>("bindAddress", "127.0.0.1"),
+                authToken,
+                rateLimitPerSecond: config.get<number>(
+                  "rateLimitPerSecond",
+                  50
+                ),
+                portRange: config.get<number>("serverPortRange", 10),
               });
+              await profilerServer.start();
+              watchControlClients(profilerServer);
+
+              // The runtime config and panel must point at the port in use
+              if (profilerServer.getPort() !== port) {
+                outputChannel.appendLine(
+                  `Port ${port} is in use; profiler server listening on ${profilerServer.getPort()} instead`
+                );
+              }
+              updateServerEndpoints();
             }
 
-            // Update RN config file with selected components
-            const selectedComponents =
-              profilerPanel?.getSelectedComponents() || [];
             // Extract component names from paths (format: "path/to/file.tsx::ComponentName")
-            const componentNames = selectedComponents
-              .map((compPath) => {
-                const parts = compPath.split("::");
-                return parts.length > 1
-                  ? parts[1]
-                  : compPath
-                      .split("/")
-                      .pop()
-                      ?.replace(/\.(tsx|jsx|ts|js)$/, "") || "";
-              })
-              .filter((name) => name.length > 0);
+            const componentNames = getSelectedComponentNames();
+            const session = profilerServer.startRecording(
+              componentNames,
+              getSessionOptions()
+            );
+            outputChannel.appendLine(`Recording session ${session.id} started`);
+
+            if (profilerPanel) {
+              profilerPanel.setServer(profilerServer);
+              // The panel now receives new logs as deltas pushed by the server
+              profilerPanel.sendMessage({ type: "recordingStarted", session });
+            }
 
             console.log(
               `[Profiler] Starting recording with components: ${componentNames.join(
                 ", "
               )}`
             );
-            await updateRNConfig(true, componentNames);
+
+            // Connected runtimes were told to start over the control channel;
+            // only fall back to rewriting the config (and a Metro restart) without them
+            const connectedApps = profilerServer.getControlClients().length;
+            if (connectedApps === 0) {
+              await updateRNConfig(true, componentNames);
+            }
 
             vscode.window.showInformationMessage(
-              `Profiling started on port ${port}. ` +
+              `Profiling started on port ${profilerServer.getPort()}. ` +
                 `${
                   componentNames.length > 0
                     ? `Profiling ${componentNames.length} component(s). `
                     : "No components selected. "
                 }` +
-                `Please restart Metro Bundler if config changes don't take effect.`
+                (connectedApps > 0
+                  ? `Sent to ${connectedApps} connected app(s).`
+                  : `No app connected to the control channel yet; ` +
+                    `restart Metro Bundler if your runtime doesn't support it.`)
             );
           } catch (error: any) {
             vscode.window.showErrorMessage(
               `Failed to start profiling: ${error.message}`
             );
-            profilerServer = undefined;
+            if (profilerServer && !profilerServer.isRunning()) {
+              profilerServer = undefined;
+            }
           }
         } else {
           vscode.window.showWarningMessage("Recording is already in progress");
@@ -142,42 +279,61 @@ export async function activate(context: vscode.ExtensionContext) {
     const stopRecordingCommand = vscode.commands.registerCommand(
       "rnProfilerAI.stopRecording",
       async () => {
-        if (profilerServer) {
-          const logs = profilerServer.getLogs();
-          profilerServer.stop();
-          profilerServer = undefined;
+        if (profilerServer?.isRecording()) {
+          await profilerServer.stopRecording();
+          const logs = await profilerServer.getAllLogs();
+          // Read after the spill file, whose unreadable lines count as dropped
+          const session = profilerServer.getSession()!;
+          outputChannel.appendLine(
+            `Recording session ${session.id} stopped: ${logs.length} logs from ${session.clients.length} device(s)`
+          );
+          const evicted =
+            (session.storeStats?.dropped || 0) +
+            (session.storeStats?.spilled || 0);
+          if (evicted > 0) {
+            outputChannel.appendLine(
+              `Memory limit reached: ${session.storeStats!.dropped} logs dropped, ${session.storeStats!.spilled} spilled to disk`
+            );
+          }
 
+          activeSession.set(session, logs);
           if (profilerPanel) {
             profilerPanel.setServer(undefined);
-            profilerPanel.storeLogs(logs);
+            profilerPanel.storeSession(session, logs);
             profilerPanel.sendMessage({
               type: "recordingStopped",
               logs: logs,
+              session,
             });
           }
 
-          // Update RN config file - extract component names from paths
-          const selectedComponents =
-            profilerPanel?.getSelectedComponents() || [];
-          const componentNames = selectedComponents
-            .map((compPath) => {
-              const parts = compPath.split("::");
-              return parts.length > 1
-                ? parts[1]
-                : compPath
-                    .split("/")
-                    .pop()
-                    ?.replace(/\.(tsx|jsx|ts|js)$/, "") || "";
-            })
-            .filter((name) => name.length > 0);
-          await updateRNConfig(false, componentNames);
+          // Persist the session so it survives window reloads
+          if (sessionRepository && logs.length > 0) {
+            try {
+              await sessionRepository.save(session, logs);
+              outputChannel.appendLine(
+                `Saved session ${session.id} to ${sessionRepository.getDirectory()}`
+              );
+              await profilerPanel?.refreshSessions();
+            } catch (error: any) {
+              vscode.window.showErrorMessage(
+                `Failed to save recording session: ${error.message}`
+              );
+            }
+          }
+
+          // Update RN config file only for runtimes without the control channel
+          if (profilerServer.getControlClients().length === 0) {
+            await updateRNConfig(false, getSelectedComponentNames());
+          }
 
           if (logs.length === 0) {
             vscode.window.showWarningMessage(
               `Recording stopped but collected 0 logs. ` +
                 `Check: 1) Component name in COMPONENTS_TO_PROFILE matches withProfiler name, ` +
-                `2) Metro Bundler was restarted, 3) Component rendered during profiling, ` +
-                `4) Server URL is correct (use 10.0.2.2 for Android emulator). ` +
+                `2) The app is connected to the control channel (or Metro Bundler was restarted), ` +
+                `3) Component rendered during profiling, ` +
+                `4) The app can reach one of the server URLs shown in the Profiler Panel. ` +
                 `See Output panel for details.`
             );
           } else {
@@ -192,22 +348,38 @@ export async function activate(context: vscode.ExtensionContext) {
           if (autoAnalyze && logs.length > 0) {
             vscode.commands.executeCommand("rnProfilerAI.analyzeLogs");
           }
+
+          if (serverSettingsChanged) {
+            restartServerWhenIdle();
+          }
         } else {
           vscode.window.showWarningMessage("No recording in progress");
         }
       }
     );
 
+    // Run from the render CodeLens above a component's declaration
+    const showComponentCommand = vscode.commands.registerCommand(
+      "rnProfilerAI.showComponent",
+      async (componentId: string) => {
+        await vscode.commands.executeCommand("rnProfilerAI.showProfilerPanel");
+        profilerPanel?.showComponent(componentId);
+      }
+    );
+
     const analyzeLogsCommand = vscode.commands.registerCommand(
       "rnProfilerAI.analyzeLogs",
-      async () => {
-        // Get logs from server if running, or from panel's stored logs
+      async (clientId?: string, range?: TimeRange) => {
+        // Get logs from server if running, or from panel's stored logs.
+        // A client id restricts analysis to a single device's log stream,
+        // and a range to the span selected on the panel's timeline.
         let logs: ProfileLog[] = [];
-        if (profilerServer) {
-          logs = profilerServer.getLogs();
+        if (profilerServer?.isRecording()) {
+          logs = profilerServer.getLogs(clientId);
         } else if (profilerPanel) {
-          logs = profilerPanel.getStoredLogs();
+          logs = profilerPanel.getStoredLogs(clientId);
         }
+        logs = filterByTimeRange(logs, range);
 
         if (logs.length === 0) {
           vscode.window.showErrorMessage(
@@ -226,11 +398,149 @@ export async function activate(context: vscode.ExtensionContext) {
       }
     );
 
+    const importProfileCommand = vscode.commands.registerCommand(
+      "rnProfilerAI.importProfile",
+      async () => {
+        if (profilerServer?.isRecording()) {
+          vscode.window.showWarningMessage(
+            "Stop the current recording before importing a profile."
+          );
+          return;
+        }
+
+        const files = await vscode.window.showOpenDialog({
+          canSelectMany: false,
+          filters: { "React DevTools profile": ["json"] },
+          openLabel: "Import Profile",
+        });
+        if (!files || files.length === 0) {
+          return;
+        }
+
+        try {
+          const file = files[0];
+          const content = await vscode.workspace.fs.readFile(file);
+          const stat = await vscode.workspace.fs.stat(file);
+          const { session, logs, commitCount } = convertDevToolsProfile(
+            JSON.parse(Buffer.from(content).toString("utf8")),
+            new Date(stat.mtime)
+          );
+          if (logs.length === 0) {
+            vscode.window.showWarningMessage(
+              "The profile contains no component renders."
+            );
+            return;
+          }
+
+          const name = `Imported ${path.basename(file.fsPath)}`;
+          let shownSession = session;
+          if (sessionRepository) {
+            shownSession = await sessionRepository.save(session, logs, name);
+          }
+          outputChannel.appendLine(
+            `Imported ${logs.length} logs from ${commitCount} commits in ${file.fsPath} as session ${session.id}`
+          );
+
+          profilerPanel = ProfilerPanel.createOrShow(
+            context.extensionUri,
+            componentTreeProvider!,
+            sessionRepository
+          );
+          profilerPanel.showSession(shownSession, logs);
+          await profilerPanel.refreshSessions();
+
+          const choice = await vscode.window.showInformationMessage(
+            `Imported ${logs.length} renders from ${commitCount} commits.`,
+            "Analyze"
+          );
+          if (choice === "Analyze") {
+            await profilerPanel.analyzeLogs(logs);
+          }
+        } catch (error: any) {
+          vscode.window.showErrorMessage(
+            `Failed to import profile: ${error.message}`
+          );
+        }
+      }
+    );
+
+    const exportTraceCommand = vscode.commands.registerCommand(
+      "rnProfilerAI.exportTrace",
+      async (sessionId?: string) => {
+        // A session id exports a saved session; otherwise the live recording
+        // or the session currently shown in the panel
+        let session: SessionInfo | undefined;
+        let logs: ProfileLog[] = [];
+        try {
+          if (sessionId && sessionRepository) {
+            const stored = await sessionRepository.load(sessionId);
+            session = stored.meta;
+            logs = stored.logs;
+          } else if (profilerServer?.isRecording()) {
+            session = profilerServer.getSession();
+            logs = profilerServer.getLogs();
+          } else if (profilerPanel) {
+            session = profilerPanel.getStoredSession();
+            logs = profilerPanel.getStoredLogs();
+          }
+        } catch (error: any) {
+          vscode.window.showErrorMessage(
+            `Failed to load session ${sessionId}: ${error.message}`
+          );
+          return;
+        }
+
+        if (!session || logs.length === 0) {
+          vscode.window.showErrorMessage(
+            "No profiling logs to export. Record, open or import a session first."
+          );
+          return;
+        }
+
+        const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const target = await vscode.window.showSaveDialog({
+          defaultUri: defaultFolder
+            ? vscode.Uri.joinPath(defaultFolder, `${session.id}.trace.json`)
+            : undefined,
+          filters: { "Chrome Trace": ["json"] },
+          saveLabel: "Export Trace",
+        });
+        if (!target) {
+          return;
+        }
+
+        try {
+          const trace = toChromeTrace(session, logs);
+          await vscode.workspace.fs.writeFile(
+            target,
+            Buffer.from(JSON.stringify(trace), "utf8")
+          );
+          outputChannel.appendLine(
+            `Exported session ${session.id} (${trace.traceEvents.length} trace events) to ${target.fsPath}`
+          );
+          const choice = await vscode.window.showInformationMessage(
+            `Exported trace to ${path.basename(target.fsPath)}. Open it in Perfetto or chrome://tracing.`,
+            "Open Perfetto"
+          );
+          if (choice === "Open Perfetto") {
+            vscode.env.openExternal(vscode.Uri.parse("https://ui.perfetto.dev"));
+          }
+        } catch (error: any) {
+          vscode.window.showErrorMessage(
+            `Failed to export trace: ${error.message}`
+          );
+        }
+      }
+    );
+
     context.subscriptions.push(
       showPanelCommand,
       startRecordingCommand,
       stopRecordingCommand,
-      analyzeLogsCommand
+      showComponentCommand,
+      analyzeLogsCommand,
+      importProfileCommand,
+      exportTraceCommand
     );
 
     // Cleanup on deactivation
@@ -275,6 +585,139 @@ export function deactivate() {
   }
 }
 
+/**
+ * Applies changed server settings: the server is only created when a
+ * recording starts, so an idle one is stopped and the next recording starts
+ * a new one. A recording in progress keeps its server until it stops
+ */
+function restartServerWhenIdle() {
+  if (!profilerServer) {
+    return;
+  }
+  if (profilerServer.isRecording()) {
+    if (!serverSettingsChanged) {
+      serverSettingsChanged = true;
+      vscode.window.showInformationMessage(
+        "Profiler server settings changed. They apply when the current recording stops."
+      );
+    }
+    return;
+  }
+
+  serverSettingsChanged = false;
+  profilerServer.stop();
+  profilerServer = undefined;
+  outputChannel.appendLine(
+    "Profiler server stopped to apply changed settings; the next recording restarts it"
+  );
+  updateServerEndpoints();
+}
+
+/**
+ * Extracts component names from the panel's selected component paths
+ * (format: "path/to/file.tsx::ComponentName")
+ */
+function getSelectedComponentNames(): string[] {
+  const selectedComponents = profilerPanel?.getSelectedComponents() || [];
+  return selectedComponents
+    .map((compPath) => {
+      const parts = compPath.split("::");
+      return parts.length > 1
+        ? parts[1]
+        : compPath
+            .split("/")
+            .pop()
+            ?.replace(/\.(tsx|jsx|ts|js)$/, "") || "";
+    })
+    .filter((name) => name.length > 0);
+}
+
+/**
+ * Returns the workspace's profiler token, generating one on first use
+ */
+function getOrCreateAuthToken(context: vscode.ExtensionContext): string {
+  const key = "rnProfilerAI.authToken";
+  let token = context.workspaceState.get<string>(key);
+  if (!token) {
+    token = crypto.randomBytes(16).toString("hex");
+    context.workspaceState.update(key, token);
+  }
+  return token;
+}
+
+/**
+ * Recomputes the server URLs the runtime should use from the port and
+ * bind address settings (or the port a running server fell back to), and
+ * shares them with the panel
+ */
+function updateServerEndpoints() {
+  const config = vscode.workspace.getConfiguration("rnProfilerAI");
+  const port = profilerServer?.isRunning()
+    ? profilerServer.getPort()
+    : config.get<number>("serverPort", 1337);
+  serverEndpoints = getServerEndpoints(
+    port,
+    config.get<string>("bindAddress", "127.0.0.1"),
+    getDiscoveryPorts()
+  );
+  ProfilerPanel.setServerEndpoints(serverEndpoints);
+}
+
+/**
+ * Ports the server may listen on: the configured port and its fallbacks
+ */
+function getDiscoveryPorts(): number[] {
+  const config = vscode.workspace.getConfiguration("rnProfilerAI");
+  const firstPort = config.get<number>("serverPort", 1337);
+  const range = Math.max(1, config.get<number>("serverPortRange", 10));
+  return Array.from({ length: range }, (_, index) => firstPort + index);
+}
+
+/**
+ * Reads the in-memory log limits for new recording sessions from settings
+ */
+function getSessionOptions(): RecordingSessionOptions {
+  const config = vscode.workspace.getConfiguration("rnProfilerAI");
+  const spillToDisk = config.get<boolean>("spillToDisk", false);
+  return {
+    maxLogs: config.get<number>("maxLogsInMemory", DEFAULT_MAX_LOGS),
+    spillDir: spillToDisk ? sessionRepository?.getDirectory() : undefined,
+  };
+}
+
+/**
+ * Logs control channel connections and keeps the panel's app list current
+ */
+function watchControlClients(server: ProfilerServer) {
+  const notifyPanel = () => {
+    profilerPanel?.sendMessage({
+      type: "controlClientsUpdate",
+      clients: server.getControlClients(),
+    });
+  };
+
+  server.on("clientConnected", (client: ControlClientInfo) => {
+    outputChannel.appendLine(
+      `App connected: ${client.deviceInfo.os} ${client.deviceInfo.version} (client ${client.clientId})`
+    );
+    notifyPanel();
+  });
+
+  server.on("clientAcknowledged", (client: ControlClientInfo) => {
+    outputChannel.appendLine(
+      `App acknowledged "${client.lastAck}": ${client.deviceInfo.os} (client ${client.clientId})`
+    );
+    notifyPanel();
+  });
+
+  server.on("clientDisconnected", (client: ControlClientInfo) => {
+    outputChannel.appendLine(
+      `App disconnected: ${client.deviceInfo.os} (client ${client.clientId})`
+    );
+    notifyPanel();
+  });
+}
+
 /**
  * Finds the React Native project directory (supports monorepos)
  */
@@ -339,16 +782,12 @@ async function updateRNConfig(enabled: boolean, components: string[]) {
     "rn-profiler-config.ts"
   );
 
-  const configContent = `// Auto-generated by RN Profiler AI extension
-// Changes to this file may require a Metro Bundler restart
-
-export const PROFILING_ENABLED: boolean = ${enabled};
-export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
+  const configContent = renderRuntimeConfig({
+    enabled,
     components,
-    null,
-    2
-  )};
-`;
+    authToken,
+    endpoints: serverEndpoints,
+  });
 
   try {
     await vscode.workspace.fs.writeFile(
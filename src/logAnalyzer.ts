@@ -0,0 +1,579 @@
+import axios from 'axios';
+import { ProfileLog } from './types';
+import { SessionComparison, ComponentSample } from './sessionComparison';
+import { computeSessionStats, SessionStats, ComponentStats, FRAME_BUDGET_MS } from './stats';
+
+/**
+ * Returns the source file of a component id ("path/to/file.tsx::Name"),
+ * or null if it can't be read
+ */
+export type ComponentSourceLookup = (componentId: string) => Promise<string | null>;
+
+export type FindingSeverity = 'High' | 'Medium' | 'Low';
+
+/**
+ * One bottleneck the AI reported, from the findings block that ends an analysis
+ */
+export interface AnalysisFinding {
+    component: string; // Component id as it appears in the profiling data
+    severity: FindingSeverity;
+    issue: string; // One-sentence description
+}
+
+/**
+ * A source file shown to the AI so it can suggest edits to it
+ */
+export interface SourceFile {
+    path: string; // Relative to the source root, as edits refer to it
+    content: string;
+    components: string[]; // Components declared in it
+}
+
+/**
+ * Returns the files declaring the given component ids, leaving out ids
+ * that can't be located
+ */
+export type SourceFileLookup = (componentIds: string[]) => Promise<SourceFile[]>;
+
+/**
+ * A code change the AI suggested, from the edits block of its reply. Not
+ * yet checked against the file, which may have changed since
+ */
+export interface SuggestedEdit {
+    file: string; // Path relative to the source root
+    original: string; // Code to replace, as quoted from the file
+    replacement: string;
+    description: string; // One sentence on what the edit does
+    startLine?: number; // 1-based lines the original was quoted from
+    endLine?: number;
+}
+
+// Fenced block the analysis ends with, listing its findings as JSON
+const FINDINGS_BLOCK = /\n?```findings[^\n]*\n([\s\S]*?)```[ \t]*\n?/;
+// Fenced block of an edits reply, listing the edits as JSON
+const EDITS_BLOCK = /```edits[^\n]*\n([\s\S]*?)```/;
+// Limits on the source shown when asking for edits
+const MAX_EDIT_FILES = 5;
+const MAX_EDIT_FILE_LENGTH = 12000;
+
+export interface LogAnalyzerOptions {
+    apiKey: string;
+    provider: string; // 'openai', 'anthropic' or 'cursor'
+    getComponentSource?: ComponentSourceLookup; // Adds code context to the prompt
+    getSourceFiles?: SourceFileLookup; // Needed to suggest edits
+}
+
+/**
+ * AI analysis of profiling logs using OpenAI or Anthropic APIs. Has no
+ * dependency on VS Code, so the CLI can use it as well as the extension
+ */
+export class LogAnalyzer {
+    private apiKey: string;
+    private provider: string;
+    private getComponentSource: ComponentSourceLookup | undefined;
+    private getSourceFiles: SourceFileLookup | undefined;
+
+    constructor(options: LogAnalyzerOptions) {
+        this.apiKey = options.apiKey;
+        this.provider = options.provider;
+        this.getComponentSource = options.getComponentSource;
+        this.getSourceFiles = options.getSourceFiles;
+    }
+
+    /**
+     * Analyzes profiling logs using AI
+     */
+    async analyze(logs: ProfileLog[]): Promise<string> {
+        if (!this.apiKey) {
+            throw new Error('API key not configured.');
+        }
+
+        // Identify bottleneck components
+        const stats = computeSessionStats(logs);
+        const bottlenecks = this.identifyBottlenecks(stats);
+        
+        // Get source code for bottleneck components
+        const codeContext = await this.getCodeContext(bottlenecks.map(component => component.id));
+
+        // Build the prompt
+        const prompt = this.buildPrompt(logs, stats, bottlenecks, codeContext);
+
+        return await this.complete(prompt);
+    }
+
+    /**
+     * Asks the AI to explain the differences between a baseline and a
+     * candidate session, given their statistical comparison
+     */
+    async analyzeComparison(
+        baselineLogs: ProfileLog[],
+        candidateLogs: ProfileLog[],
+        comparison: SessionComparison
+    ): Promise<string> {
+        if (!this.apiKey) {
+            throw new Error('API key not configured.');
+        }
+
+        // Code context for the components whose renders changed the most
+        const changed = comparison.components
+            .filter(component => component.verdict !== 'unchanged')
+            .slice(0, 10)
+            .map(component => component.id);
+        const codeContext = await this.getCodeContext(changed);
+
+        const prompt = this.buildComparisonPrompt(baselineLogs, candidateLogs, comparison, codeContext);
+        return await this.complete(prompt);
+    }
+
+    /**
+     * Asks the AI for code edits fixing the bottlenecks of a session, building
+     * on an earlier analysis of it when given. The edits are only parsed;
+     * callers check them against the files before applying them
+     */
+    async suggestEdits(logs: ProfileLog[], analysis?: string): Promise<SuggestedEdit[]> {
+        if (!this.apiKey) {
+            throw new Error('API key not configured.');
+        }
+        if (!this.getSourceFiles) {
+            throw new Error('Suggesting edits needs access to the source files.');
+        }
+
+        const stats = computeSessionStats(logs);
+        const bottlenecks = this.identifyBottlenecks(stats);
+        const files = (await this.getSourceFiles(bottlenecks.map(component => component.id)))
+            .slice(0, MAX_EDIT_FILES);
+        if (files.length === 0) {
+            throw new Error('No source files found for the bottleneck components.');
+        }
+
+        const prompt = this.buildEditsPrompt(stats, bottlenecks, files, analysis);
+        return extractSuggestedEdits(await this.complete(prompt));
+    }
+
+    /**
+     * Sends a prompt to the configured provider
+     */
+    private async complete(prompt: string): Promise<string> {
+        // Cursor uses Anthropic's Claude models, so its key goes to the Anthropic API
+        if (this.provider === 'openai') {
+            return await this.callOpenAI(this.apiKey, prompt);
+        } else if (this.provider === 'anthropic') {
+            return await this.callAnthropic(this.apiKey, prompt);
+        } else if (this.provider === 'cursor') {
+            try {
+                return await this.callAnthropic(this.apiKey, prompt);
+            } catch (error: any) {
+                const errorMsg = error.message || 'Unknown error';
+                throw new Error(
+                    `Failed to call Anthropic API (used by Cursor): ${errorMsg}. ` +
+                    'Please verify your API key is correct.'
+                );
+            }
+        } else {
+            throw new Error(`Unsupported API provider: ${this.provider}`);
+        }
+    }
+
+    /**
+     * Picks the components to focus on: those whose p95 render misses a
+     * 60 Hz frame, then those taking the largest share of render time
+     */
+    private identifyBottlenecks(stats: SessionStats): ComponentStats[] {
+        const overFrame = stats.components.filter(component => component.durations.p95 > FRAME_BUDGET_MS);
+        const rest = stats.components.filter(component => component.durations.p95 <= FRAME_BUDGET_MS);
+        return [...overFrame, ...rest].slice(0, 10); // Top 10
+    }
+
+    /**
+     * Gets source code context for bottleneck components
+     */
+    private async getCodeContext(componentIds: string[]): Promise<Map<string, string>> {
+        const context = new Map<string, string>();
+
+        for (const componentId of componentIds) {
+            try {
+                const source = this.getComponentSource
+                    ? await this.getComponentSource(componentId)
+                    : null;
+                if (source) {
+                    // Limit source code length to avoid token limits
+                    const maxLength = 2000;
+                    const truncated = source.length > maxLength 
+                        ? source.substring(0, maxLength) + '\n... (truncated)'
+                        : source;
+                    context.set(componentId, truncated);
+                }
+            } catch (error) {
+                console.error(`Failed to get source for ${componentId}:`, error);
+            }
+        }
+
+        return context;
+    }
+
+    /**
+     * Builds the AI prompt with logs, bottlenecks, and code context
+     */
+    private buildPrompt(
+        logs: ProfileLog[],
+        stats: SessionStats,
+        bottlenecks: ComponentStats[],
+        codeContext: Map<string, string>
+    ): string {
+        const logsSummary = this.summarizeLogs(stats);
+        const codeSnippets = Array.from(codeContext.entries())
+            .map(([id, code]) => `\n## Component: ${id}\n\`\`\`typescript\n${code}\n\`\`\``)
+            .join('\n');
+
+        return `You are a React Native performance expert. Analyze the following React Native component render profiles and identify performance bottlenecks, potential root causes, and suggest concrete optimizations.
+
+## Instructions
+- Focus on renders with \`actualDuration\` significantly higher than \`baseDuration\`
+- Identify frequent re-renders that may be unnecessary
+- Look for unusually high \`mount\` times
+- Use the statistics: time share shows where total render time goes, renders/s shows how often a component re-renders, and a p95 above one frame (${FRAME_BUDGET_MS.toFixed(1)}ms) means dropped frames
+- Consider React Native-specific performance concerns (e.g., expensive operations on JS thread, large lists, heavy computations)
+- Provide detailed, actionable advice with specific code suggestions
+
+## Profiling Data Summary
+${logsSummary}
+
+## Identified Bottleneck Components
+${bottlenecks.map(component => `- ${component.id} (p95 ${component.durations.p95.toFixed(2)}ms, ${(component.timeShare * 100).toFixed(1)}% of render time)`).join('\n')}
+
+## Source Code Context
+${codeSnippets || 'No source code available for bottleneck components.'}
+
+## Output Format
+Provide your analysis in structured Markdown format with:
+1. **Summary**: A brief overview of the performance issues found
+2. **Bottlenecks**: A list of identified bottlenecks with:
+   - Component Name
+   - Issue Description
+   - Severity (High/Medium/Low)
+   - Impact (e.g., "Causes 200ms render delay")
+3. **Detailed Recommendations**: For each bottleneck, provide:
+   - Root cause analysis
+   - Specific optimization suggestions
+   - Code examples where applicable
+   - References to specific lines/files if mentioned in code snippets
+4. **Findings**: End with a fenced code block tagged \`findings\` holding a JSON array with one object per bottleneck, e.g.
+\`\`\`findings
+[{ "component": "<id exactly as in the profiling data>", "severity": "High", "issue": "<one sentence>" }]
+\`\`\`
+   with severity one of High, Medium or Low
+
+## Raw Logs (for reference)
+\`\`\`json
+${JSON.stringify(logs.slice(0, 50), null, 2)}
+\`\`\`
+
+Please provide a comprehensive analysis now.`;
+    }
+
+    /**
+     * Builds the AI prompt comparing two sessions
+     */
+    private buildComparisonPrompt(
+        baselineLogs: ProfileLog[],
+        candidateLogs: ProfileLog[],
+        comparison: SessionComparison,
+        codeContext: Map<string, string>
+    ): string {
+        const ms = (value?: number) => value === undefined ? '-' : value.toFixed(2);
+        const stats = (sample: ComponentSample) =>
+            `${sample.count} renders, mean ${ms(sample.mean)}ms, p50 ${ms(sample.p50)}ms, p95 ${ms(sample.p95)}ms, mount ${ms(sample.mountMean)}ms`;
+        const rows = comparison.components
+            .slice(0, 30)
+            .map(component =>
+                `- **${component.id}** (${component.verdict}` +
+                (component.pValue !== undefined ? `, p=${component.pValue.toFixed(4)}` : '') +
+                `)\n  - Baseline: ${stats(component.baseline)}\n  - Candidate: ${stats(component.candidate)}`
+            )
+            .join('\n');
+        const codeSnippets = Array.from(codeContext.entries())
+            .map(([id, code]) => `\n## Component: ${id}\n\`\`\`typescript\n${code}\n\`\`\``)
+            .join('\n');
+
+        return `You are a React Native performance expert. Compare two profiling sessions of the same app: a baseline (before a change) and a candidate (after it). Explain whether the change helped, which components regressed or improved and the likely reasons, and what to do next.
+
+## Instructions
+- Trust the verdicts: "regressed"/"improved" components differ significantly (Mann-Whitney U test, p < ${comparison.significanceLevel}) with a meaningful change in median render time
+- Treat "unchanged" differences as noise, even if the means moved
+- Consider that render counts can change because the interaction recorded was different, not only because of the code
+- Provide concrete fixes for regressions, with code suggestions where the source is available
+
+## Baseline Session
+${this.summarizeLogs(computeSessionStats(baselineLogs))}
+## Candidate Session
+${this.summarizeLogs(computeSessionStats(candidateLogs))}
+## Verdicts
+${Object.entries(comparison.summary).map(([verdict, count]) => `- ${verdict}: ${count}`).join('\n')}
+
+## Per-Component Comparison
+${rows}
+
+## Source Code Context
+${codeSnippets || 'No source code available for the changed components.'}
+
+## Output Format
+Provide your analysis in structured Markdown format with:
+1. **Verdict**: Did the candidate improve performance overall?
+2. **Regressions**: Each regressed component with its likely cause and a fix
+3. **Improvements**: What made the improved components faster
+4. **Next Steps**: Further optimizations or measurements to make
+
+Please provide the comparison now.`;
+    }
+
+    /**
+     * Builds the AI prompt asking for edits, with the bottlenecks' files
+     * quoted with line numbers
+     */
+    private buildEditsPrompt(
+        stats: SessionStats,
+        bottlenecks: ComponentStats[],
+        files: SourceFile[],
+        analysis?: string
+    ): string {
+        const sources = files
+            .map(file => {
+                const truncated = file.content.length > MAX_EDIT_FILE_LENGTH;
+                const lines = file.content.slice(0, MAX_EDIT_FILE_LENGTH).split(/\r?\n/);
+                const width = String(lines.length).length;
+                const numbered = lines
+                    .map((line, index) => `${String(index + 1).padStart(width)} | ${line}`)
+                    .join('\n');
+                return `\n### ${file.path} (${file.components.join(', ')})\n\`\`\`typescript\n${numbered}` +
+                    `${truncated ? '\n... (truncated)' : ''}\n\`\`\``;
+            })
+            .join('\n');
+
+        return `You are a React Native performance expert. Turn optimizations for the bottleneck components below into concrete code edits that can be applied to their source files.
+
+## Instructions
+- Only edit the files listed under Source Files, and only where the change helps a bottleneck
+- Each edit replaces one contiguous snippet of a file. Copy \`original\` exactly from the file, with its indentation but without the line numbers, and make it long enough to be unique in the file
+- \`replacement\` is the complete code replacing the snippet, indented like the original
+- Add imports a change needs as a separate edit
+- Don't let edits to the same file overlap; merge them into one edit instead
+- Prefer a few focused edits over rewriting whole components
+
+## Profiling Data Summary
+${this.summarizeLogs(stats)}
+## Identified Bottleneck Components
+${bottlenecks.map(component => `- ${component.id} (p95 ${component.durations.p95.toFixed(2)}ms, ${(component.timeShare * 100).toFixed(1)}% of render time)`).join('\n')}
+${analysis ? `\n## Earlier Analysis\n${analysis}\n` : ''}
+## Source Files
+${sources}
+
+## Output Format
+Reply with a fenced code block tagged \`edits\` holding a JSON array with one object per edit, e.g.
+\`\`\`edits
+[{ "file": "<path exactly as under Source Files>", "startLine": 12, "endLine": 14, "original": "<the code of lines 12-14>", "replacement": "<the new code>", "description": "<one sentence on what the edit does and why>" }]
+\`\`\`
+Reply with an empty array if no edit is worth making.`;
+    }
+
+    /**
+     * Summarizes session statistics for the prompt, with the components
+     * taking the most render time as a table
+     */
+    private summarizeLogs(stats: SessionStats): string {
+        const durations = stats.durations;
+        if (!durations) {
+            return '\n- No render events recorded\n';
+        }
+
+        const ms = (value: number) => `${value.toFixed(2)}ms`;
+        const rate = (value?: number) => value === undefined ? '-' : value.toFixed(1);
+        const phases = Object.entries(stats.phases)
+            .map(([phase, summary]) => `${phase} ${summary.count} (mean ${ms(summary.mean)}, p95 ${ms(summary.p95)})`)
+            .join(', ');
+        const buckets = stats.histogram
+            .filter(bucket => bucket.count > 0)
+            .map(bucket => `${bucket.max === undefined ? `>=${bucket.min}` : `${bucket.min}-${bucket.max}`}ms: ${bucket.count}`)
+            .join(', ');
+        const rows = stats.components
+            .slice(0, 20)
+            .map(component => {
+                const mounts = component.phases.mount?.count || 0;
+                return `| ${component.id} | ${component.durations.count} | ${mounts} | ${component.durations.count - mounts} | ` +
+                    `${rate(component.rendersPerSecond)} | ${(component.timeShare * 100).toFixed(1)}% | ` +
+                    `${ms(component.durations.mean)} | ${ms(component.durations.p50)} | ${ms(component.durations.p95)} | ${ms(component.durations.max)} |`;
+            })
+            .join('\n');
+
+        return `
+- Total render events: ${stats.renderCount}
+- Unique components: ${stats.components.length}
+- Recording span: ${(stats.spanMs / 1000).toFixed(1)}s (${rate(stats.rendersPerSecond)} renders/s)
+- Render duration: mean ${ms(durations.mean)}, p50 ${ms(durations.p50)}, p95 ${ms(durations.p95)}, p99 ${ms(durations.p99)}, max ${ms(durations.max)}
+- Phases: ${phases}
+- Duration histogram: ${buckets}
+
+| Component | Renders | Mounts | Updates | Renders/s | Time share | Mean | p50 | p95 | Max |
+| --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |
+${rows}
+`;
+    }
+
+    /**
+     * Calls OpenAI API
+     */
+    private async callOpenAI(apiKey: string, prompt: string): Promise<string> {
+        try {
+            const response = await axios.post(
+                'https://api.openai.com/v1/chat/completions',
+                {
+                    model: 'gpt-4-turbo-preview',
+                    messages: [
+                        {
+                            role: 'system',
+                            content: 'You are a React Native performance optimization expert. Provide detailed, actionable analysis of performance profiling data.'
+                        },
+                        {
+                            role: 'user',
+                            content: prompt
+                        }
+                    ],
+                    temperature: 0.7,
+                    max_tokens: 4000
+                },
+                {
+                    headers: {
+                        'Authorization': `Bearer ${apiKey}`,
+                        'Content-Type': 'application/json'
+                    }
+                }
+            );
+
+            return response.data.choices[0].message.content;
+        } catch (error: any) {
+            if (error.response) {
+                const errorMsg = error.response.data?.error?.message || error.message;
+                throw new Error(`OpenAI API error: ${errorMsg}`);
+            }
+            const errorMsg = error.message || 'Unknown error';
+            throw new Error(`Failed to call OpenAI API: ${errorMsg}`);
+        }
+    }
+
+    /**
+     * Calls Anthropic API
+     */
+    private async callAnthropic(apiKey: string, prompt: string): Promise<string> {
+        try {
+            const response = await axios.post(
+                'https://api.anthropic.com/v1/messages',
+                {
+                    model: 'claude-3-opus-20240229',
+                    max_tokens: 4096,
+                    messages: [
+                        {
+                            role: 'user',
+                            content: prompt
+                        }
+                    ]
+                },
+                {
+                    headers: {
+                        'x-api-key': apiKey,
+                        'anthropic-version': '2023-06-01',
+                        'Content-Type': 'application/json'
+                    }
+                }
+            );
+
+            // Anthropic returns content as an array
+            const content = response.data.content;
+            if (Array.isArray(content) && content.length > 0) {
+                return content[0].text;
+            }
+            return JSON.stringify(content);
+        } catch (error: any) {
+            if (error.response) {
+                const errorMsg = error.response.data?.error?.message || error.message;
+                throw new Error(`Anthropic API error: ${errorMsg}`);
+            }
+            const errorMsg = error.message || 'Unknown error';
+            throw new Error(`Failed to call Anthropic API: ${errorMsg}`);
+        }
+    }
+}
+
+/**
+ * Splits an analysis into the Markdown to show and the findings listed in
+ * its findings block. Findings are empty when the block is missing or
+ * invalid; malformed entries are skipped
+ */
+export function extractFindings(analysis: string): { markdown: string; findings: AnalysisFinding[] } {
+    const match = FINDINGS_BLOCK.exec(analysis);
+    if (!match) {
+        return { markdown: analysis, findings: [] };
+    }
+
+    const markdown = (analysis.slice(0, match.index) + '\n' + analysis.slice(match.index + match[0].length)).trim();
+    let entries: unknown;
+    try {
+        entries = JSON.parse(match[1]);
+    } catch (error) {
+        return { markdown, findings: [] };
+    }
+    if (!Array.isArray(entries)) {
+        return { markdown, findings: [] };
+    }
+
+    const findings: AnalysisFinding[] = [];
+    for (const entry of entries) {
+        const severity = ['High', 'Medium', 'Low'].find(
+            level => level.toLowerCase() === String(entry?.severity).toLowerCase()
+        ) as FindingSeverity | undefined;
+        if (typeof entry?.component === 'string' && typeof entry.issue === 'string' && severity) {
+            findings.push({ component: entry.component, severity, issue: entry.issue });
+        }
+    }
+    return { markdown, findings };
+}
+
+/**
+ * Reads the edits block of a reply to suggestEdits. Edits are empty when the
+ * block is missing or invalid; malformed entries are skipped
+ */
+export function extractSuggestedEdits(reply: string): SuggestedEdit[] {
+    const match = EDITS_BLOCK.exec(reply);
+    if (!match) {
+        return [];
+    }
+    let entries: unknown;
+    try {
+        entries = JSON.parse(match[1]);
+    } catch (error) {
+        return [];
+    }
+    if (!Array.isArray(entries)) {
+        return [];
+    }
+
+    const line = (value: unknown) =>
+        typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
+    const edits: SuggestedEdit[] = [];
+    for (const entry of entries) {
+        if (
+            typeof entry?.file !== 'string' || !entry.file ||
+            typeof entry.original !== 'string' || !entry.original ||
+            typeof entry.replacement !== 'string'
+        ) {
+            continue;
+        }
+        edits.push({
+            file: entry.file,
+            original: entry.original,
+            replacement: entry.replacement,
+            description: typeof entry.description === 'string' ? entry.description : '',
+            startLine: line(entry.startLine),
+            endLine: line(entry.endLine),
+        });
+    }
+    return edits;
+}
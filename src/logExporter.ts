@@ -0,0 +1,211 @@
+import { ProfileLog, SessionInfo } from "./types";
+import { computeSessionStats } from "./stats";
+
+export type LogExportFormat = "text" | "csv" | "ndjson" | "markdown";
+
+/**
+ * Display name and file extension for each export format
+ */
+export const LOG_EXPORT_FORMATS: Record<
+  LogExportFormat,
+  { label: string; extension: string }
+> = {
+  text: { label: "Plain text", extension: "txt" },
+  csv: { label: "CSV", extension: "csv" },
+  ndjson: { label: "NDJSON", extension: "ndjson" },
+  markdown: { label: "Markdown summary", extension: "md" },
+};
+
+const CSV_COLUMNS: (keyof ProfileLog | "os" | "osVersion" | "model")[] = [
+  "timestamp",
+  "clientId",
+  "os",
+  "osVersion",
+  "model",
+  "id",
+  "phase",
+  "actualDuration",
+  "baseDuration",
+  "startTime",
+  "commitTime",
+  "interactions",
+];
+
+export function isLogExportFormat(value: unknown): value is LogExportFormat {
+  return typeof value === "string" && value in LOG_EXPORT_FORMATS;
+}
+
+/**
+ * Formats logs for the clipboard or a file
+ */
+export function formatLogs(
+  logs: ProfileLog[],
+  format: LogExportFormat,
+  session?: SessionInfo
+): string {
+  switch (format) {
+    case "csv":
+      return formatCsv(logs);
+    case "ndjson":
+      return logs.map((log) => JSON.stringify(log)).join("\n") + "\n";
+    case "markdown":
+      return formatMarkdownSummary(logs, session);
+    default:
+      return formatText(logs, session);
+  }
+}
+
+function formatText(logs: ProfileLog[], session?: SessionInfo): string {
+  if (logs.length === 0) {
+    return "No profiling logs available.";
+  }
+
+  const header =
+    "React Native Profiler Logs\n" +
+    (session ? `Session: ${session.id}\n` : "") +
+    `Generated: ${new Date().toISOString()}\n` +
+    `Total Logs: ${logs.length}\n` +
+    "=".repeat(80) +
+    "\n\n";
+
+  const entries = logs.map((log, index) => {
+    const lines = [
+      `Log #${index + 1}`,
+      `Component: ${log.id}`,
+      `Phase: ${log.phase}`,
+      `Actual Duration: ${log.actualDuration.toFixed(2)}ms`,
+      `Base Duration: ${log.baseDuration.toFixed(2)}ms`,
+      `Start Time: ${log.startTime.toFixed(2)}ms`,
+      `Commit Time: ${log.commitTime.toFixed(2)}ms`,
+      `Timestamp: ${log.timestamp}`,
+      `Device OS: ${log.deviceInfo?.os || "unknown"}`,
+      `Device Version: ${log.deviceInfo?.version || "unknown"}`,
+    ];
+    if (log.deviceInfo?.model) {
+      lines.push(`Device Model: ${log.deviceInfo.model}`);
+    }
+    if (log.clientId) {
+      lines.push(`Client: ${log.clientId}`);
+    }
+    if (log.interactions && log.interactions.length > 0) {
+      lines.push(`Interactions: ${log.interactions.join(", ")}`);
+    }
+    lines.push("-".repeat(80));
+    return lines.join("\n");
+  });
+
+  return header + entries.join("\n\n") + "\n";
+}
+
+function formatCsv(logs: ProfileLog[]): string {
+  const rows = logs.map((log) =>
+    CSV_COLUMNS.map((column) => {
+      switch (column) {
+        case "os":
+          return csvCell(log.deviceInfo?.os);
+        case "osVersion":
+          return csvCell(log.deviceInfo?.version);
+        case "model":
+          return csvCell(log.deviceInfo?.model);
+        case "interactions":
+          return csvCell(log.interactions?.join(" "));
+        default:
+          return csvCell(log[column]);
+      }
+    }).join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+/**
+ * Quotes a CSV value when it contains a delimiter, quote or line break
+ */
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Session statistics, the duration histogram and one row per component,
+ * most total render time first
+ */
+function formatMarkdownSummary(
+  logs: ProfileLog[],
+  session?: SessionInfo
+): string {
+  const stats = computeSessionStats(logs);
+  const ms = (value: number | undefined) =>
+    value === undefined ? "-" : value.toFixed(2);
+  const rate = (value: number | undefined) =>
+    value === undefined ? "-" : value.toFixed(1);
+
+  const lines = [
+    "# React Native Profiler Summary",
+    "",
+    ...(session
+      ? [
+          `- Session: \`${session.id}\``,
+          `- Started: ${session.startTime}`,
+          `- Devices: ${session.clients.length}`,
+        ]
+      : []),
+    `- Logs: ${logs.length}`,
+  ];
+  if (stats.durations) {
+    lines.push(
+      `- Span: ${(stats.spanMs / 1000).toFixed(1)}s (${rate(
+        stats.rendersPerSecond
+      )} renders/s)`,
+      `- Render time: ${ms(stats.durations.total)}ms total, p50 ${ms(
+        stats.durations.p50
+      )}ms, p95 ${ms(stats.durations.p95)}ms, p99 ${ms(
+        stats.durations.p99
+      )}ms, max ${ms(stats.durations.max)}ms`
+    );
+    for (const [phase, summary] of Object.entries(stats.phases)) {
+      lines.push(
+        `- ${phase}: ${summary.count} renders, mean ${ms(
+          summary.mean
+        )}ms, p95 ${ms(summary.p95)}ms`
+      );
+    }
+
+    lines.push("", "| Duration | Renders |", "| --- | ---: |");
+    for (const bucket of stats.histogram) {
+      const range =
+        bucket.max === undefined
+          ? `>= ${bucket.min}ms`
+          : `${bucket.min}-${bucket.max}ms`;
+      lines.push(`| ${range} | ${bucket.count} |`);
+    }
+  }
+
+  lines.push(
+    "",
+    "| Component | Renders | Mounts | Updates | Renders/s | Share | Total (ms) | Mean (ms) | p50 (ms) | p95 (ms) | Max (ms) |",
+    "| --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |"
+  );
+  for (const component of stats.components) {
+    const { durations } = component;
+    const mounts = component.phases.mount?.count || 0;
+    const cells = [
+      component.id.replace(/\|/g, "\\|"),
+      durations.count,
+      mounts,
+      durations.count - mounts,
+      rate(component.rendersPerSecond),
+      `${(component.timeShare * 100).toFixed(1)}%`,
+      ms(durations.total),
+      ms(durations.mean),
+      ms(durations.p50),
+      ms(durations.p95),
+      ms(durations.max),
+    ];
+    lines.push(`| ${cells.join(" | ")} |`);
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,178 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ProfileLog, LogStoreStats } from "./types";
+
+// Evicted logs are appended to the spill file in chunks of this size
+const SPILL_BATCH_SIZE = 500;
+
+/**
+ * Fixed-capacity ring buffer for profile logs. Once full, the oldest log is
+ * evicted for every new one: appended to an NDJSON spill file when a spill
+ * path is configured, otherwise dropped. Both outcomes are counted so long
+ * recordings report exactly what was kept.
+ *
+ * Logs are implicitly numbered from 1 in arrival order, so readers can ask
+ * for everything after the last sequence number they saw.
+ */
+export class LogStore {
+  private capacity: number;
+  private spillPath: string | undefined;
+  private buffer: ProfileLog[] = [];
+  private head = 0; // Index of the oldest log once the buffer has wrapped
+  private received = 0;
+  private dropped = 0;
+  private spilled = 0;
+  private unreadable = 0; // Spilled logs that couldn't be read back
+  private pendingSpill: string[] = [];
+  private spillQueue: Promise<void> = Promise.resolve();
+
+  constructor(capacity: number, spillPath?: string) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error(`Invalid log store capacity: ${capacity}`);
+    }
+    this.capacity = capacity;
+    this.spillPath = spillPath;
+  }
+
+  push(log: ProfileLog) {
+    this.received += 1;
+
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(log);
+      return;
+    }
+
+    const evicted = this.buffer[this.head];
+    this.buffer[this.head] = log;
+    this.head = (this.head + 1) % this.capacity;
+    this.evict(evicted);
+  }
+
+  /**
+   * Returns stored logs, oldest first
+   */
+  toArray(): ProfileLog[] {
+    return this.buffer
+      .slice(this.head)
+      .concat(this.buffer.slice(0, this.head));
+  }
+
+  /**
+   * Returns stored logs with a sequence number above `seq`, oldest first.
+   * Logs evicted in the meantime are skipped
+   */
+  getSince(seq: number): ProfileLog[] {
+    const count = Math.min(this.received - seq, this.buffer.length);
+    const start = this.buffer.length - Math.max(count, 0);
+    const logs: ProfileLog[] = [];
+    for (let i = start; i < this.buffer.length; i++) {
+      logs.push(this.buffer[(this.head + i) % this.buffer.length]);
+    }
+    return logs;
+  }
+
+  /**
+   * Sequence number of the newest log (0 while empty)
+   */
+  get lastSeq(): number {
+    return this.received;
+  }
+
+  get size(): number {
+    return this.buffer.length;
+  }
+
+  getStats(): LogStoreStats {
+    return {
+      capacity: this.capacity,
+      stored: this.buffer.length,
+      received: this.received,
+      dropped: this.dropped,
+      spilled: this.spilled,
+    };
+  }
+
+  /**
+   * Writes any evicted logs still waiting to be spilled
+   */
+  flush(): Promise<void> {
+    if (this.pendingSpill.length > 0) {
+      const lines = this.pendingSpill;
+      this.pendingSpill = [];
+      this.spillQueue = this.spillQueue.then(() => this.writeSpill(lines));
+    }
+    return this.spillQueue;
+  }
+
+  /**
+   * Returns every log that wasn't dropped, oldest first: the spill file
+   * followed by the logs in memory. Meant for stores no longer receiving logs
+   */
+  async readAll(): Promise<ProfileLog[]> {
+    if (!this.spillPath || this.spilled === 0) {
+      return this.toArray();
+    }
+
+    await this.flush();
+    let content = "";
+    try {
+      content = await fs.promises.readFile(this.spillPath, "utf8");
+    } catch (error) {
+      console.error("[Profiler] Failed to read spilled logs:", error);
+    }
+    const spilled: ProfileLog[] = [];
+    let unreadable = 0;
+    for (const line of content.split("\n")) {
+      if (line.trim().length === 0) {
+        continue;
+      }
+      try {
+        spilled.push(JSON.parse(line));
+      } catch (error) {
+        unreadable += 1; // e.g. a line truncated by a crash mid-write
+      }
+    }
+
+    // Unreadable lines count as dropped; repeated reads only add new ones
+    if (unreadable > this.unreadable) {
+      console.warn(
+        `[Profiler] Skipped ${unreadable} unreadable lines in ${this.spillPath}`
+      );
+      this.spilled -= unreadable - this.unreadable;
+      this.dropped += unreadable - this.unreadable;
+      this.unreadable = unreadable;
+    }
+    return spilled.concat(this.toArray());
+  }
+
+  private evict(log: ProfileLog) {
+    if (!this.spillPath) {
+      this.dropped += 1;
+      return;
+    }
+
+    // Counted as spilled up front; moved to dropped if the write fails
+    this.spilled += 1;
+    this.pendingSpill.push(JSON.stringify(log));
+    if (this.pendingSpill.length >= SPILL_BATCH_SIZE) {
+      this.flush();
+    }
+  }
+
+  private async writeSpill(lines: string[]): Promise<void> {
+    try {
+      await fs.promises.mkdir(path.dirname(this.spillPath!), {
+        recursive: true,
+      });
+      await fs.promises.appendFile(
+        this.spillPath!,
+        lines.join("\n") + "\n",
+        "utf8"
+      );
+    } catch (error) {
+      console.error("[Profiler] Failed to spill logs to disk:", error);
+      this.spilled -= lines.length;
+      this.dropped += lines.length;
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ComponentTreeProvider } from "./componentTreeProvider";
+import { ActiveSession } from "./activeSession";
+import { DIAGNOSTIC_SOURCE } from "./renderDiagnostics";
+import {
+  findMemoCandidate,
+  MemoizationFix,
+  planInlinePropHoist,
+  planMemoWrap,
+} from "./memoizationFixes";
+
+/**
+ * Offers memoization quick fixes, computed from the code alone: wrapping a
+ * component in React.memo on its declaration when the active session shows
+ * it re-rendering with an unchanged baseDuration, and moving an inline
+ * object, array or function prop into useMemo/useCallback. Edits open in the
+ * refactor preview before they're applied
+ */
+export class MemoizationCodeActionProvider
+  implements vscode.CodeActionProvider
+{
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  private componentTreeProvider: ComponentTreeProvider;
+  private activeSession: ActiveSession;
+
+  constructor(
+    componentTreeProvider: ComponentTreeProvider,
+    activeSession: ActiveSession
+  ) {
+    this.componentTreeProvider = componentTreeProvider;
+    this.activeSession = activeSession;
+  }
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const content = document.getText();
+    const actions: vscode.CodeAction[] = [];
+
+    const memo = this.createMemoAction(document, content, range, context);
+    if (memo) {
+      actions.push(memo);
+    }
+
+    let hoist: MemoizationFix | undefined;
+    try {
+      hoist = planInlinePropHoist(content, document.offsetAt(range.start));
+    } catch (error) {
+      // Unparseable while being edited
+    }
+    if (hoist) {
+      actions.push(createAction(document, hoist));
+    }
+    return actions;
+  }
+
+  /**
+   * React.memo for the component declared on the range's line, if the active
+   * session suggests it
+   */
+  private createMemoAction(
+    document: vscode.TextDocument,
+    content: string,
+    range: vscode.Range,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction | undefined {
+    if (!this.activeSession.getSession()) {
+      return undefined;
+    }
+
+    let declarations;
+    try {
+      declarations = this.componentTreeProvider.findComponentDeclarations(
+        content,
+        path.basename(document.fileName)
+      );
+    } catch (error) {
+      return undefined;
+    }
+    const declaration = declarations.find(
+      (candidate) => candidate.line === range.start.line
+    );
+    if (!declaration) {
+      return undefined;
+    }
+
+    const relativePath = vscode.workspace.asRelativePath(document.uri, false);
+    const candidate = findMemoCandidate(
+      this.activeSession.getComponentLogs(
+        `${relativePath}::${declaration.name}`,
+        declaration.profilerId,
+        declaration.name
+      )
+    );
+    const fix = candidate && planMemoWrap(content, declaration.name);
+    if (!candidate || !fix) {
+      return undefined;
+    }
+
+    const action = createAction(document, {
+      ...fix,
+      title: `${fix.title} (${candidate.unchanged} of ${candidate.updates} updates had an unchanged baseDuration)`,
+    });
+    action.diagnostics = context.diagnostics.filter(
+      (diagnostic) =>
+        diagnostic.source === DIAGNOSTIC_SOURCE &&
+        diagnostic.range.start.line === declaration.line
+    );
+    action.isPreferred = true;
+    return action;
+  }
+}
+
+/**
+ * A quick fix applying the edits of a fix, each needing confirmation so the
+ * refactor preview shows the diff first
+ */
+function createAction(
+  document: vscode.TextDocument,
+  fix: MemoizationFix
+): vscode.CodeAction {
+  const action = new vscode.CodeAction(
+    fix.title,
+    vscode.CodeActionKind.QuickFix
+  );
+  const edit = new vscode.WorkspaceEdit();
+  for (const sourceEdit of fix.edits) {
+    edit.replace(
+      document.uri,
+      new vscode.Range(
+        document.positionAt(sourceEdit.start),
+        document.positionAt(sourceEdit.end)
+      ),
+      sourceEdit.text,
+      { label: fix.title, needsConfirmation: true }
+    );
+  }
+  action.edit = edit;
+  return action;
+}
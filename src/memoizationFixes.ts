@@ -0,0 +1,564 @@
+import { parse } from "@babel/parser";
+import traverse, { NodePath } from "@babel/traverse";
+import * as t from "@babel/types";
+import { ProfileLog } from "./types";
+
+// React.memo is suggested for components updated at least this often...
+const MIN_UPDATES = 5;
+// ...when at least this share of updates repeat the previous baseDuration
+const UNCHANGED_BASE_SHARE = 0.8;
+// baseDurations this close, in ms, count as the same
+const BASE_DURATION_TOLERANCE = 0.05;
+
+/**
+ * Replaces code from start to end (offsets into the source) with text
+ */
+export interface SourceEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * A rewrite of one file; its edits don't overlap
+ */
+export interface MemoizationFix {
+  title: string;
+  edits: SourceEdit[];
+}
+
+/**
+ * Updates of a component that did the same work as the render before
+ */
+export interface MemoCandidate {
+  updates: number;
+  unchanged: number; // Updates whose baseDuration repeated the previous render's
+}
+
+/**
+ * Checks whether a component's renders suggest React.memo: it updates often,
+ * and most updates re-render a subtree that costs exactly what it did the
+ * render before, which is typical of re-renders with unchanged props
+ */
+export function findMemoCandidate(
+  logs: ProfileLog[]
+): MemoCandidate | undefined {
+  const previous = new Map<string, number>(); // Device -> last baseDuration
+  let updates = 0;
+  let unchanged = 0;
+  const ordered = [...logs].sort((a, b) => a.commitTime - b.commitTime);
+  for (const log of ordered) {
+    const device = log.clientId || "";
+    const last = previous.get(device);
+    if (log.phase === "update") {
+      updates++;
+      if (
+        last !== undefined &&
+        Math.abs(log.baseDuration - last) <= BASE_DURATION_TOLERANCE
+      ) {
+        unchanged++;
+      }
+    }
+    previous.set(device, log.baseDuration);
+  }
+
+  if (updates < MIN_UPDATES || unchanged < updates * UNCHANGED_BASE_SHARE) {
+    return undefined;
+  }
+  return { updates, unchanged };
+}
+
+/**
+ * Wraps a component declared in the file in React.memo (or memo when
+ * imported by name). Function declarations become a memoized const of the
+ * same name, so existing references keep working. Returns undefined for
+ * class components, components that are already memoized, and function
+ * declarations used before them at module level, which the const would break
+ */
+export function planMemoWrap(
+  code: string,
+  componentName: string
+): MemoizationFix | undefined {
+  const program = parseProgram(code);
+  const binding = program?.scope.getBinding(componentName);
+  if (!program || !binding) {
+    return undefined;
+  }
+  const alreadyMemoized = binding.referencePaths.some(
+    (reference) =>
+      reference.parentPath?.isCallExpression() &&
+      isReactCall(reference.parentPath.node, "memo")
+  );
+  if (alreadyMemoized) {
+    return undefined;
+  }
+
+  const memo = useReactExport(program, "memo");
+  const title = `Wrap ${componentName} in ${memo.expression}`;
+  const declaration = binding.path;
+
+  // const Name = (props) => ... or const Name = forwardRef(...)
+  if (declaration.isVariableDeclarator()) {
+    const init = declaration.node.init;
+    if (
+      !init ||
+      isReactCall(init, "memo") ||
+      !(
+        t.isArrowFunctionExpression(init) ||
+        t.isFunctionExpression(init) ||
+        isReactCall(init, "forwardRef")
+      )
+    ) {
+      return undefined;
+    }
+    return {
+      title,
+      edits: [
+        ...memo.edits,
+        { start: init.start!, end: init.start!, text: `${memo.expression}(` },
+        { start: init.end!, end: init.end!, text: ")" },
+      ],
+    };
+  }
+
+  if (!declaration.isFunctionDeclaration()) {
+    return undefined; // Class components would extend PureComponent instead
+  }
+  const fn = declaration.node;
+
+  // export default function Name() {} -> function Name() {} plus a memoized default export
+  if (declaration.parentPath.isExportDefaultDeclaration()) {
+    const exportNode = declaration.parentPath.node;
+    return {
+      title,
+      edits: [
+        ...memo.edits,
+        { start: exportNode.start!, end: fn.start!, text: "" },
+        {
+          start: exportNode.end!,
+          end: exportNode.end!,
+          text: `\n\nexport default ${memo.expression}(${componentName});`,
+        },
+      ],
+    };
+  }
+
+  // A const isn't hoisted: module-level code above the declaration that uses
+  // the component would now throw. Uses inside functions run later
+  const usedBeforeDeclaration = binding.referencePaths.some(
+    (reference) =>
+      reference.node.start! < fn.start! &&
+      !reference.getFunctionParent() &&
+      !reference.parentPath?.isExportSpecifier()
+  );
+  if (usedBeforeDeclaration) {
+    return undefined;
+  }
+
+  // function Name() {} (possibly exported) -> const Name = memo(function Name() {});
+  return {
+    title,
+    edits: [
+      ...memo.edits,
+      {
+        start: fn.start!,
+        end: fn.start!,
+        text: `const ${componentName} = ${memo.expression}(`,
+      },
+      { start: fn.end!, end: fn.end!, text: ");" },
+    ],
+  };
+}
+
+/**
+ * Moves an inline object, array or function prop at the offset (e.g.
+ * style={{ flex: 1 }} or onPress={() => select(id)}) into a useMemo or
+ * useCallback declared in the component body, so memoized children get the
+ * same value on every render. The hook goes right before the statement
+ * using the prop, with the component-scoped variables it reads as
+ * dependencies. Returns undefined where hoisting would change behavior:
+ * props inside callbacks or blocks, after an early return, reading variables
+ * declared after the hook's position, or outside a function component
+ */
+export function planInlinePropHoist(
+  code: string,
+  offset: number
+): MemoizationFix | undefined {
+  const program = parseProgram(code);
+  if (!program) {
+    return undefined;
+  }
+
+  let attribute: NodePath<t.JSXAttribute> | undefined;
+  program.traverse({
+    JSXAttribute(path) {
+      const { start, end } = path.node;
+      if (start! <= offset && offset <= end! && inlineValue(path.node)) {
+        attribute = path; // Innermost match wins
+      }
+    },
+  });
+  const value = attribute && inlineValue(attribute.node);
+  if (!attribute || !value || !t.isJSXIdentifier(attribute.node.name)) {
+    return undefined;
+  }
+
+  // The prop must be evaluated directly in the component body
+  const component = attribute.getFunctionParent();
+  if (!component || !isComponentFunction(component)) {
+    return undefined;
+  }
+  if (isConditionallyEvaluated(attribute, component)) {
+    return undefined; // Hoisting would evaluate the value on every render
+  }
+  const body = component.node.body;
+  const anchor = attribute.findParent(
+    (path) => path.parentPath?.node === body
+  ) as NodePath<t.Statement> | null;
+  if (t.isBlockStatement(body)) {
+    if (!anchor || !anchor.isStatement()) {
+      return undefined;
+    }
+    const before = body.body.slice(0, body.body.indexOf(anchor.node));
+    if (before.some(containsReturn)) {
+      return undefined; // The hook would only run on some renders
+    }
+  }
+
+  // Dependencies: variables of the component the value reads
+  const dependencies: string[] = [];
+  let blockScoped = false;
+  let declaredLater = false;
+  attribute.get("value").traverse({
+    Identifier(path) {
+      if (!path.isReferencedIdentifier()) {
+        return;
+      }
+      const binding = path.scope.getBinding(path.node.name);
+      if (!binding || binding.scope === program.scope) {
+        return; // Globals, imports and module-level variables never change
+      }
+      if (isWithin(binding.path.node, value)) {
+        return; // Declared inside the value, e.g. a callback's parameter
+      }
+      if (binding.scope !== component.scope) {
+        blockScoped = true;
+      } else if (
+        anchor &&
+        binding.kind !== "hoisted" &&
+        binding.path.node.start! >= anchor.node.start!
+      ) {
+        declaredLater = true; // Not yet initialized where the hook goes
+      } else if (!dependencies.includes(path.node.name)) {
+        dependencies.push(path.node.name);
+      }
+    },
+  });
+  if (blockScoped || declaredLater) {
+    return undefined;
+  }
+
+  const isFunction =
+    t.isArrowFunctionExpression(value) || t.isFunctionExpression(value);
+  const hook = useReactExport(program, isFunction ? "useCallback" : "useMemo");
+  const name = pickName(attribute, component);
+  const valueCode = code.slice(value.start!, value.end!);
+  let factory = valueCode;
+  if (t.isObjectExpression(value)) {
+    factory = `() => (${valueCode})`;
+  } else if (t.isArrayExpression(value)) {
+    factory = `() => ${valueCode}`;
+  }
+  const declaration = `const ${name} = ${hook.expression}(${factory}, [${dependencies.join(", ")}]);`;
+  const title = `Move inline ${attribute.node.name.name} into ${hook.expression}`;
+
+  if (t.isBlockStatement(body)) {
+    const indent = indentationAt(code, anchor!.node.start!);
+    return {
+      title,
+      edits: [
+        ...hook.edits,
+        {
+          start: anchor!.node.start!,
+          end: anchor!.node.start!,
+          text: `${declaration}\n${indent}`,
+        },
+        { start: value.start!, end: value.end!, text: name },
+      ],
+    };
+  }
+
+  // Expression-bodied arrow component: give it a block body
+  const { start, end } = expressionExtent(code, body);
+  const indent = indentationAt(code, component.node.start!);
+  const returned =
+    code.slice(start, value.start!) + name + code.slice(value.end!, end);
+  return {
+    title,
+    edits: [
+      ...hook.edits,
+      {
+        start,
+        end,
+        text: `{\n${indent}  ${declaration}\n${indent}  return ${returned};\n${indent}}`,
+      },
+    ],
+  };
+}
+
+function parseProgram(code: string): NodePath<t.Program> | undefined {
+  let ast: t.File;
+  try {
+    ast = parse(code, {
+      sourceType: "module",
+      plugins: ["jsx", "typescript", "decorators-legacy", "classProperties"],
+    });
+  } catch (error) {
+    return undefined; // Don't rewrite files that don't parse
+  }
+
+  let program: NodePath<t.Program> | undefined;
+  traverse(ast, {
+    Program(path) {
+      program = path;
+      path.stop();
+    },
+  });
+  return program;
+}
+
+/**
+ * The object, array or function literal passed as an attribute's value
+ */
+function inlineValue(attribute: t.JSXAttribute): t.Expression | undefined {
+  const container = attribute.value;
+  if (!t.isJSXExpressionContainer(container)) {
+    return undefined;
+  }
+  const expression = container.expression;
+  if (
+    t.isObjectExpression(expression) ||
+    t.isArrayExpression(expression) ||
+    t.isArrowFunctionExpression(expression) ||
+    t.isFunctionExpression(expression)
+  ) {
+    return expression;
+  }
+  return undefined;
+}
+
+/**
+ * Checks if hooks may be called in a function: a capitalized component or a
+ * custom hook, possibly wrapped (memo, forwardRef, withProfiler) or exported
+ * anonymously as the default
+ */
+function isComponentFunction(path: NodePath<t.Function>): boolean {
+  if (!t.isFunctionDeclaration(path.node) && !t.isExpression(path.node)) {
+    return false; // Methods
+  }
+  let name: string | undefined;
+  if (
+    (t.isFunctionDeclaration(path.node) || t.isFunctionExpression(path.node)) &&
+    path.node.id
+  ) {
+    name = path.node.id.name;
+  }
+  let parent = path.parentPath;
+  while (parent?.isCallExpression()) {
+    parent = parent.parentPath; // memo(...), forwardRef(...)
+  }
+  if (
+    !name &&
+    parent?.isVariableDeclarator() &&
+    t.isIdentifier(parent.node.id)
+  ) {
+    name = parent.node.id.name;
+  }
+  if (!name) {
+    return !!parent?.isExportDefaultDeclaration();
+  }
+  return /^[A-Z]/.test(name) || /^use[A-Z0-9]/.test(name);
+}
+
+/**
+ * Checks whether path only runs on some evaluations of the component body:
+ * under the right side of &&, || or ??, a branch of ?: or an if, or an
+ * optional chain
+ */
+function isConditionallyEvaluated(
+  path: NodePath,
+  component: NodePath
+): boolean {
+  for (
+    let child = path, parent = path.parentPath;
+    parent && parent !== component;
+    child = parent, parent = parent.parentPath
+  ) {
+    if (
+      (parent.isLogicalExpression() && child.key === "right") ||
+      (parent.isConditionalExpression() && child.key !== "test") ||
+      (parent.isIfStatement() && child.key !== "test") ||
+      parent.isOptionalMemberExpression() ||
+      parent.isOptionalCallExpression()
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Checks for a return outside nested functions
+ */
+function containsReturn(node: t.Node | null | undefined): boolean {
+  if (!node || t.isFunction(node)) {
+    return false;
+  }
+  if (t.isReturnStatement(node)) {
+    return true;
+  }
+  return t.VISITOR_KEYS[node.type].some((key) => {
+    const child = (node as unknown as Record<string, unknown>)[key] as
+      | t.Node
+      | t.Node[]
+      | null
+      | undefined;
+    return Array.isArray(child)
+      ? child.some(containsReturn)
+      : containsReturn(child);
+  });
+}
+
+function isWithin(node: t.Node, container: t.Node): boolean {
+  return node.start! >= container.start! && node.end! <= container.end!;
+}
+
+/**
+ * Checks for React.memo(...) / memo(...) style calls of a React export
+ */
+function isReactCall(node: t.Node, exportName: string): boolean {
+  if (!t.isCallExpression(node)) {
+    return false;
+  }
+  const callee = node.callee;
+  return (
+    (t.isIdentifier(callee) && callee.name === exportName) ||
+    (t.isMemberExpression(callee) &&
+      t.isIdentifier(callee.property) &&
+      callee.property.name === exportName)
+  );
+}
+
+/**
+ * How to refer to a React export in the file: its local name when imported
+ * by name, React.name with a default or namespace import, and otherwise by
+ * name after adding it to the file's imports
+ */
+function useReactExport(
+  program: NodePath<t.Program>,
+  exportName: string
+): { expression: string; edits: SourceEdit[] } {
+  const imports = program.node.body.filter(
+    (statement): statement is t.ImportDeclaration =>
+      t.isImportDeclaration(statement) &&
+      statement.source.value === "react" &&
+      statement.importKind !== "type"
+  );
+  for (const declaration of imports) {
+    for (const specifier of declaration.specifiers) {
+      if (
+        t.isImportSpecifier(specifier) &&
+        t.isIdentifier(specifier.imported) &&
+        specifier.imported.name === exportName
+      ) {
+        return { expression: specifier.local.name, edits: [] };
+      }
+    }
+  }
+  for (const declaration of imports) {
+    const react = declaration.specifiers.find(
+      (specifier) =>
+        t.isImportDefaultSpecifier(specifier) ||
+        t.isImportNamespaceSpecifier(specifier)
+    );
+    if (react) {
+      return { expression: `${react.local.name}.${exportName}`, edits: [] };
+    }
+  }
+
+  const named = imports.find((declaration) =>
+    declaration.specifiers.some((specifier) => t.isImportSpecifier(specifier))
+  );
+  if (named) {
+    const last = named.specifiers[named.specifiers.length - 1];
+    return {
+      expression: exportName,
+      edits: [{ start: last.end!, end: last.end!, text: `, ${exportName}` }],
+    };
+  }
+  return {
+    expression: exportName,
+    edits: [
+      {
+        start: 0,
+        end: 0,
+        text: `import { ${exportName} } from "react";\n`,
+      },
+    ],
+  };
+}
+
+/**
+ * Names the hoisted value after the prop (style, onPress), prefixed with
+ * the element (rowStyle) or numbered when the name is taken
+ */
+function pickName(
+  attribute: NodePath<t.JSXAttribute>,
+  component: NodePath<t.Function>
+): string {
+  const prop = (attribute.node.name as t.JSXIdentifier).name;
+  const opening = attribute.parentPath.node as t.JSXOpeningElement;
+  const element = t.isJSXIdentifier(opening.name) ? opening.name.name : "";
+  const taken = (name: string) =>
+    attribute.scope.hasBinding(name) ||
+    component.scope.hasGlobal(name) ||
+    !t.isValidIdentifier(name);
+
+  const candidates = [
+    prop,
+    element.charAt(0).toLowerCase() +
+      element.slice(1) +
+      prop.charAt(0).toUpperCase() +
+      prop.slice(1),
+  ];
+  const free = candidates.find((candidate) => !taken(candidate));
+  if (free) {
+    return free;
+  }
+  let index = 2;
+  while (taken(`${candidates[1]}${index}`)) {
+    index++;
+  }
+  return `${candidates[1]}${index}`;
+}
+
+function indentationAt(code: string, offset: number): string {
+  const lineStart = code.lastIndexOf("\n", offset - 1) + 1;
+  return code.slice(lineStart).match(/^[ \t]*/)![0];
+}
+
+/**
+ * Source extent of an arrow function's expression body, including the
+ * parentheses around it
+ */
+function expressionExtent(
+  code: string,
+  body: t.Expression
+): { start: number; end: number } {
+  const extra = body.extra as { parenthesized?: boolean; parenStart?: number };
+  if (!extra?.parenthesized || extra.parenStart === undefined) {
+    return { start: body.start!, end: body.end! };
+  }
+  const close = code.indexOf(")", body.end!);
+  return { start: extra.parenStart, end: close + 1 };
+}
@@ -1,11 +1,47 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs";
+import * as QRCode from "qrcode";
 import { ProfilerServer } from "./profilerServer";
 import { ComponentTreeProvider } from "./componentTreeProvider";
-import { ProfileLog, WebViewMessage, ComponentTreeNode } from "./types";
+import {
+  ProfileLog,
+  WebViewMessage,
+  ComponentTreeNode,
+  SessionInfo,
+  StoredSession,
+  TimeRange,
+} from "./types";
 import { AIAnalyzer } from "./aiAnalyzer";
+import { ComponentLocator } from "./componentLocator";
 import { ComponentWrapper } from "./componentWrapper";
+import { SessionRepository } from "./sessionRepository";
+import { renderRuntimeConfig } from "./runtimeConfig";
+import { ServerEndpoints, getServerEndpoints } from "./serverAddress";
+import {
+  formatLogs,
+  isLogExportFormat,
+  LogExportFormat,
+  LOG_EXPORT_FORMATS,
+} from "./logExporter";
+import {
+  DEFAULT_BUDGETS_FILE,
+  loadBudgets,
+  evaluateBudgets,
+  describeCheck,
+} from "./budgets";
+import { compareSessions, SessionComparison } from "./sessionComparison";
+import { computeSessionStats } from "./stats";
+import { groupCommits } from "./commits";
+import { filterByTimeRange, isTimeRange } from "./timeRange";
+import { ActiveSession } from "./activeSession";
+import { extractFindings } from "./logAnalyzer";
+import { checkSuggestedEdits, previewSuggestedEdits } from "./suggestedEdits";
+
+// New logs are coalesced into one delta message per interval while recording
+const LOG_DELTA_INTERVAL_MS = 250;
+// Statistics are recomputed at most this often while recording
+const STATS_INTERVAL_MS = 2000;
 
 /**
  * Manages the WebView panel that displays the profiler UI
@@ -19,14 +55,64 @@ export class ProfilerPanel {
   private componentTreeProvider: ComponentTreeProvider;
   private aiAnalyzer: AIAnalyzer;
   private componentWrapper: ComponentWrapper;
+  private sessionRepository: SessionRepository | undefined;
   private storedLogs: ProfileLog[] = [];
+  private storedSession: SessionInfo | undefined;
   private selectedComponents: string[] = [];
+  private comparison:
+    | {
+        baseline: StoredSession;
+        candidate: StoredSession;
+        result: SessionComparison;
+      }
+    | undefined;
+  private sentSeq = 0; // Sequence number of the newest log sent to the webview
+  private deltaTimer: NodeJS.Timeout | undefined;
+  private statsClientId: string | undefined; // Device the webview's statistics are for
+  private statsSentAt = 0;
+  private webviewReady = false;
+  private pendingComponent: string | undefined; // Shown once the webview is ready
+  private lastAnalysis: { logs: ProfileLog[]; analysis: string } | undefined; // Edits are suggested from it
+  private onLogsReceived = () => this.scheduleLogsDelta();
   private static outputChannel: vscode.OutputChannel | undefined;
+  private static authToken = "";
+  private static activeSession: ActiveSession | undefined;
+  private static componentLocator: ComponentLocator | undefined;
+  private static serverEndpoints: ServerEndpoints = getServerEndpoints(
+    1337,
+    "127.0.0.1"
+  );
 
   public static setOutputChannel(channel: vscode.OutputChannel) {
     ProfilerPanel.outputChannel = channel;
   }
 
+  public static setAuthToken(token: string) {
+    ProfilerPanel.authToken = token;
+  }
+
+  /**
+   * Sessions stored in the panel become the editor's active session
+   */
+  public static setActiveSession(activeSession: ActiveSession) {
+    ProfilerPanel.activeSession = activeSession;
+  }
+
+  /**
+   * Locates the components the AI analyzes and suggests edits to
+   */
+  public static setComponentLocator(componentLocator: ComponentLocator) {
+    ProfilerPanel.componentLocator = componentLocator;
+  }
+
+  /**
+   * Updates the server URLs written into the runtime config and shown in the panel
+   */
+  public static setServerEndpoints(endpoints: ServerEndpoints) {
+    ProfilerPanel.serverEndpoints = endpoints;
+    ProfilerPanel.currentPanel?.sendServerEndpoints();
+  }
+
   private log(message: string) {
     if (ProfilerPanel.outputChannel) {
       ProfilerPanel.outputChannel.appendLine(`[ProfilerPanel] ${message}`);
@@ -37,11 +123,13 @@ export class ProfilerPanel {
   private constructor(
     panel: vscode.WebviewPanel,
     extensionUri: vscode.Uri,
-    componentTreeProvider: ComponentTreeProvider
+    componentTreeProvider: ComponentTreeProvider,
+    sessionRepository: SessionRepository | undefined
   ) {
     this.panel = panel;
     this.componentTreeProvider = componentTreeProvider;
-    this.aiAnalyzer = new AIAnalyzer(componentTreeProvider);
+    this.sessionRepository = sessionRepository;
+    this.aiAnalyzer = new AIAnalyzer(ProfilerPanel.componentLocator!);
     this.componentWrapper = new ComponentWrapper();
 
     // Set the webview's initial html content
@@ -50,6 +138,22 @@ export class ProfilerPanel {
     // Listen for when the panel is disposed
     this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
 
+    // Re-check the current session whenever the budgets file is edited
+    const budgetsFile = this.getBudgetsFile();
+    if (budgetsFile) {
+      const budgetsWatcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(
+          path.dirname(budgetsFile),
+          path.basename(budgetsFile)
+        )
+      );
+      const recheckBudgets = () => this.sendBudgetReport();
+      budgetsWatcher.onDidChange(recheckBudgets);
+      budgetsWatcher.onDidCreate(recheckBudgets);
+      budgetsWatcher.onDidDelete(recheckBudgets);
+      this.disposables.push(budgetsWatcher);
+    }
+
     // Handle messages from the webview
     this.panel.webview.onDidReceiveMessage(
       async (message: WebViewMessage) => {
@@ -61,7 +165,16 @@ export class ProfilerPanel {
           } else if (message.type === "stopRecording") {
             await vscode.commands.executeCommand("rnProfilerAI.stopRecording");
           } else if (message.type === "analyzeLogs") {
-            await vscode.commands.executeCommand("rnProfilerAI.analyzeLogs");
+            await vscode.commands.executeCommand(
+              "rnProfilerAI.analyzeLogs",
+              message.clientId || undefined,
+              isTimeRange(message.range) ? message.range : undefined
+            );
+          } else if (message.type === "exportTrace") {
+            await vscode.commands.executeCommand(
+              "rnProfilerAI.exportTrace",
+              message.id || undefined
+            );
           } else {
             // Handle other messages
             await this.handleMessage(message);
@@ -85,7 +198,8 @@ export class ProfilerPanel {
 
   public static createOrShow(
     extensionUri: vscode.Uri,
-    componentTreeProvider: ComponentTreeProvider
+    componentTreeProvider: ComponentTreeProvider,
+    sessionRepository?: SessionRepository
   ): ProfilerPanel {
     if (ProfilerPanel.outputChannel) {
       ProfilerPanel.outputChannel.appendLine("ProfilerPanel.createOrShow called");
@@ -123,7 +237,12 @@ export class ProfilerPanel {
       }
     );
 
-    ProfilerPanel.currentPanel = new ProfilerPanel(panel, extensionUri, componentTreeProvider);
+    ProfilerPanel.currentPanel = new ProfilerPanel(
+      panel,
+      extensionUri,
+      componentTreeProvider,
+      sessionRepository
+    );
     if (ProfilerPanel.outputChannel) {
       ProfilerPanel.outputChannel.appendLine("New ProfilerPanel instance created");
     }
@@ -135,18 +254,217 @@ export class ProfilerPanel {
   }
 
   public setServer(server: ProfilerServer | undefined) {
+    this.server?.off("logsReceived", this.onLogsReceived);
+    this.clearDeltaTimer();
     this.server = server;
+    this.sentSeq = 0;
     // Clear stored logs when starting a new recording
     if (server) {
       this.storedLogs = [];
+      this.storedSession = undefined;
+      server.on("logsReceived", this.onLogsReceived);
+    }
+  }
+
+  private scheduleLogsDelta() {
+    if (!this.deltaTimer) {
+      this.deltaTimer = setTimeout(() => {
+        this.deltaTimer = undefined;
+        this.sendLogsDelta();
+      }, LOG_DELTA_INTERVAL_MS);
+    }
+  }
+
+  private clearDeltaTimer() {
+    if (this.deltaTimer) {
+      clearTimeout(this.deltaTimer);
+      this.deltaTimer = undefined;
+    }
+  }
+
+  /**
+   * Sends the logs that arrived since the last delta. The webview checks
+   * afterSeq against what it holds and asks for a snapshot on a gap
+   */
+  private sendLogsDelta() {
+    const session = this.server?.getSession();
+    if (!this.server || !session) {
+      return;
+    }
+
+    const lastSeq = this.server.getLastSeq();
+    if (lastSeq < this.sentSeq) {
+      // The session's logs were reset; start over from a full snapshot
+      this.sendLogsSnapshot();
+      return;
+    }
+    if (lastSeq === this.sentSeq) {
+      return;
+    }
+
+    this.sendMessage({
+      type: "logsDelta",
+      sessionId: session.id,
+      afterSeq: this.sentSeq,
+      lastSeq,
+      logs: this.server.getLogsSince(this.sentSeq),
+      session,
+    });
+    this.sentSeq = lastSeq;
+
+    if (Date.now() - this.statsSentAt >= STATS_INTERVAL_MS) {
+      this.sendSessionStats();
+    }
+  }
+
+  /**
+   * Sends every log of the current session, resetting the delta sequence
+   */
+  private sendLogsSnapshot() {
+    const session = this.server?.getSession();
+    if (!this.server || !session) {
+      return;
+    }
+
+    this.clearDeltaTimer();
+    this.sentSeq = this.server.getLastSeq();
+    this.sendMessage({
+      type: "logsSnapshot",
+      sessionId: session.id,
+      lastSeq: this.sentSeq,
+      logs: this.server.getLogs(),
+      session,
+    });
+    this.sendSessionStats();
+  }
+
+  /**
+   * Sends statistics and commits of the current logs, limited to the device
+   * picked in the webview, for the statistics table and commit charts
+   */
+  private sendSessionStats() {
+    const session = this.getCurrentSession();
+    if (!session) {
+      return;
     }
+
+    const logs = this.getCurrentLogs(this.statsClientId);
+    this.statsSentAt = Date.now();
+    this.sendMessage({
+      type: "sessionStats",
+      sessionId: session.id,
+      clientId: this.statsClientId,
+      stats: computeSessionStats(logs),
+      commits: groupCommits(logs),
+    });
   }
 
-  public storeLogs(logs: ProfileLog[]) {
+  public storeSession(session: SessionInfo, logs: ProfileLog[]) {
+    this.storedSession = session;
     this.storedLogs = logs;
+    ProfilerPanel.activeSession?.set(session, logs);
+    this.sendSessionStats();
+    this.sendBudgetReport();
+  }
+
+  /**
+   * Absolute path of the budgets file (rnProfilerAI.budgetsFile, relative
+   * to the first workspace folder)
+   */
+  private getBudgetsFile(): string | undefined {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0) {
+      return undefined;
+    }
+    return path.resolve(
+      workspaceFolders[0].uri.fsPath,
+      vscode.workspace
+        .getConfiguration("rnProfilerAI")
+        .get<string>("budgetsFile", DEFAULT_BUDGETS_FILE)
+    );
+  }
+
+  /**
+   * Evaluates the stored session against the workspace's budgets file and
+   * sends the report to the webview (a null report when there is no file)
+   */
+  private async sendBudgetReport() {
+    const session = this.storedSession;
+    const budgetsFile = this.getBudgetsFile();
+    if (!session || !budgetsFile) {
+      return;
+    }
+
+    const file = vscode.workspace.asRelativePath(budgetsFile);
+
+    try {
+      const report = evaluateBudgets(
+        this.storedLogs,
+        await loadBudgets(budgetsFile)
+      );
+      this.sendMessage({
+        type: "budgetReport",
+        sessionId: session.id,
+        file,
+        report,
+        descriptions: report.checks.map(describeCheck),
+      });
+      if (!report.passed) {
+        this.log(
+          `Session ${session.id} exceeds ${report.failures} budget(s) in ${file}`
+        );
+      }
+    } catch (error: any) {
+      this.sendMessage({
+        type: "budgetReport",
+        sessionId: session.id,
+        file,
+        report: null,
+        error: error.code === "ENOENT" ? undefined : error.message,
+      });
+    }
+  }
+
+  /**
+   * Makes a session (e.g. an imported profile) the panel's current data
+   */
+  public showSession(session: SessionInfo, logs: ProfileLog[]) {
+    this.storeSession(session, logs);
+    this.sendMessage({ type: "sessionOpened", session, logs });
+  }
+
+  /**
+   * Shows a component's statistics (e.g. from a CodeLens), first switching
+   * to the editor's active session unless a recording is running
+   */
+  public showComponent(componentId: string) {
+    const activeSession = ProfilerPanel.activeSession?.getSession();
+    if (
+      activeSession &&
+      activeSession !== this.storedSession &&
+      !this.server?.isRecording()
+    ) {
+      this.showSession(activeSession, ProfilerPanel.activeSession!.getLogs());
+    }
+
+    if (this.webviewReady) {
+      this.sendMessage({ type: "showComponent", id: componentId });
+    } else {
+      this.pendingComponent = componentId;
+    }
+  }
+
+  public getStoredSession(): SessionInfo | undefined {
+    return this.storedSession;
   }
 
-  public getStoredLogs(): ProfileLog[] {
+  /**
+   * Returns the stored logs, optionally only those from one client (device)
+   */
+  public getStoredLogs(clientId?: string): ProfileLog[] {
+    if (clientId) {
+      return this.storedLogs.filter((log) => log.clientId === clientId);
+    }
     return this.storedLogs;
   }
 
@@ -164,6 +482,188 @@ export class ProfilerPanel {
     }
   }
 
+  /**
+   * Sends the per-target server URLs, with a QR code a phone can scan to
+   * check it reaches the server over the LAN
+   */
+  private async sendServerEndpoints() {
+    const endpoints = ProfilerPanel.serverEndpoints;
+    let qrSvg: string | undefined;
+    if (endpoints.targets.device) {
+      try {
+        qrSvg = await QRCode.toString(`${endpoints.targets.device}/health`, {
+          type: "svg",
+          margin: 1,
+        });
+      } catch (error: any) {
+        this.log(`ERROR generating QR code: ${error.message}`);
+      }
+    }
+    this.sendMessage({ type: "serverEndpoints", endpoints, qrSvg });
+  }
+
+  /**
+   * Sends the list of persisted sessions to the webview
+   */
+  public async refreshSessions() {
+    if (!this.sessionRepository) {
+      this.sendMessage({ type: "sessionsList", sessions: [] });
+      return;
+    }
+
+    try {
+      const sessions = await this.sessionRepository.list();
+      this.sendMessage({ type: "sessionsList", sessions });
+    } catch (error: any) {
+      this.log(`ERROR listing sessions: ${error.message}`);
+      this.sendMessage({ type: "sessionsList", sessions: [] });
+    }
+  }
+
+  /**
+   * Loads a persisted session and makes it the panel's current data
+   */
+  private async openSession(id: string): Promise<ProfileLog[] | undefined> {
+    if (!this.sessionRepository) {
+      return undefined;
+    }
+
+    try {
+      const { meta, logs } = await this.sessionRepository.load(id);
+      this.showSession(meta, logs);
+      return logs;
+    } catch (error: any) {
+      vscode.window.showErrorMessage(
+        `Failed to open session ${id}: ${error.message}`
+      );
+      return undefined;
+    }
+  }
+
+  private async renameSession(id: string) {
+    if (!this.sessionRepository) {
+      return;
+    }
+
+    const sessions = await this.sessionRepository.list();
+    const current = sessions.find((session) => session.id === id);
+    const name = await vscode.window.showInputBox({
+      prompt: "Session name",
+      value: current?.name,
+    });
+    if (!name) {
+      return;
+    }
+
+    try {
+      await this.sessionRepository.rename(id, name);
+      await this.refreshSessions();
+    } catch (error: any) {
+      vscode.window.showErrorMessage(
+        `Failed to rename session ${id}: ${error.message}`
+      );
+    }
+  }
+
+  private async deleteSession(id: string) {
+    if (!this.sessionRepository) {
+      return;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `Delete recording session ${id}? This cannot be undone.`,
+      { modal: true },
+      "Delete"
+    );
+    if (choice !== "Delete") {
+      return;
+    }
+
+    try {
+      await this.sessionRepository.delete(id);
+      await this.refreshSessions();
+    } catch (error: any) {
+      vscode.window.showErrorMessage(
+        `Failed to delete session ${id}: ${error.message}`
+      );
+    }
+  }
+
+  /**
+   * Logs of the live recording, or of the session shown in the panel,
+   * optionally only those of one device and within a timeline selection
+   */
+  private getCurrentLogs(clientId?: string, range?: TimeRange): ProfileLog[] {
+    const logs = this.server?.isRecording()
+      ? this.server.getLogs(clientId)
+      : this.getStoredLogs(clientId);
+    return filterByTimeRange(logs, range);
+  }
+
+  private getCurrentSession(): SessionInfo | undefined {
+    return this.server?.isRecording()
+      ? this.server.getSession()
+      : this.storedSession;
+  }
+
+  private async copyLogs(
+    format: LogExportFormat,
+    clientId?: string,
+    range?: TimeRange
+  ) {
+    const logs = this.getCurrentLogs(clientId, range);
+    if (logs.length === 0) {
+      vscode.window.showWarningMessage("No logs to copy");
+      return;
+    }
+
+    await vscode.env.clipboard.writeText(
+      formatLogs(logs, format, this.getCurrentSession())
+    );
+    vscode.window.showInformationMessage(
+      `Copied ${logs.length} logs (${LOG_EXPORT_FORMATS[format].label}) to the clipboard.`
+    );
+  }
+
+  private async saveLogs(
+    format: LogExportFormat,
+    clientId?: string,
+    range?: TimeRange
+  ) {
+    const logs = this.getCurrentLogs(clientId, range);
+    if (logs.length === 0) {
+      vscode.window.showWarningMessage("No logs to save");
+      return;
+    }
+
+    const session = this.getCurrentSession();
+    const { label, extension } = LOG_EXPORT_FORMATS[format];
+    const fileName = `profiler-logs-${session?.id || Date.now()}.${extension}`;
+    const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: defaultFolder
+        ? vscode.Uri.joinPath(defaultFolder, fileName)
+        : undefined,
+      filters: { [label]: [extension] },
+      saveLabel: "Save Logs",
+    });
+    if (!target) {
+      return;
+    }
+
+    try {
+      await vscode.workspace.fs.writeFile(
+        target,
+        Buffer.from(formatLogs(logs, format, session), "utf8")
+      );
+      vscode.window.showInformationMessage(
+        `Saved ${logs.length} logs to ${path.basename(target.fsPath)}.`
+      );
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to save logs: ${error.message}`);
+    }
+  }
+
   public async analyzeLogs(logs: ProfileLog[]) {
     if (logs.length === 0) {
       this.sendMessage({
@@ -178,10 +678,18 @@ export class ProfilerPanel {
     });
 
     try {
-      const analysis = await this.aiAnalyzer.analyze(logs);
+      const session = this.getCurrentSession();
+      const { markdown, findings } = extractFindings(
+        await this.aiAnalyzer.analyze(logs)
+      );
+      if (session) {
+        ProfilerPanel.activeSession?.setFindings(session.id, findings);
+      }
+      this.lastAnalysis = { logs, analysis: markdown };
       this.sendMessage({
         type: "analysisComplete",
-        analysis: analysis,
+        analysis: markdown,
+        canSuggestEdits: true,
       });
     } catch (error: any) {
       this.sendMessage({
@@ -191,12 +699,129 @@ export class ProfilerPanel {
     }
   }
 
+  /**
+   * Compares two saved sessions and shows the per-component diff
+   */
+  private async compareStoredSessions(baselineId: string, candidateId: string) {
+    if (!this.sessionRepository) {
+      return;
+    }
+
+    try {
+      const baseline = await this.sessionRepository.load(baselineId);
+      const candidate = await this.sessionRepository.load(candidateId);
+      const result = compareSessions(baseline.logs, candidate.logs);
+      this.comparison = { baseline, candidate, result };
+      this.sendMessage({
+        type: "comparisonResult",
+        baseline: baseline.meta,
+        candidate: candidate.meta,
+        comparison: result,
+      });
+    } catch (error: any) {
+      vscode.window.showErrorMessage(
+        `Failed to compare sessions: ${error.message}`
+      );
+    }
+  }
+
+  /**
+   * Runs AI analysis on the last comparison, with both sessions as input
+   */
+  private async analyzeComparison() {
+    if (!this.comparison) {
+      this.sendMessage({
+        type: "analysisError",
+        error: "Compare two sessions first",
+      });
+      return;
+    }
+
+    const { baseline, candidate, result } = this.comparison;
+    this.lastAnalysis = undefined;
+    this.sendMessage({ type: "analysisStarted" });
+    try {
+      const analysis = await this.aiAnalyzer.analyzeComparison(
+        baseline.logs,
+        candidate.logs,
+        result
+      );
+      this.sendMessage({ type: "analysisComplete", analysis });
+    } catch (error: any) {
+      this.sendMessage({
+        type: "analysisError",
+        error: error.message || "Failed to analyze the comparison",
+      });
+    }
+  }
+
+  /**
+   * Asks the AI to turn the last analysis into edits, and applies the ones
+   * that still match the code once they're accepted in the refactor preview
+   */
+  private async suggestEdits() {
+    if (!this.lastAnalysis) {
+      this.sendMessage({ type: "suggestEditsDone" });
+      return;
+    }
+
+    const { logs, analysis } = this.lastAnalysis;
+    try {
+      const edits = await this.aiAnalyzer.suggestEdits(logs, analysis);
+      const { accepted, rejected } = await checkSuggestedEdits(edits);
+      for (const { edit, reason } of rejected) {
+        this.log(`Skipped suggested edit to ${edit.file}: ${reason}`);
+      }
+      if (edits.length === 0) {
+        vscode.window.showInformationMessage("The AI suggested no edits.");
+      } else if (accepted.length === 0) {
+        vscode.window.showWarningMessage(
+          `None of the ${edits.length} suggested edits match the current code. See the RN Profiler AI output for details.`
+        );
+      } else {
+        if (rejected.length > 0) {
+          vscode.window.showWarningMessage(
+            `${rejected.length} of ${edits.length} suggested edits don't match the current code and were left out. See the RN Profiler AI output for details.`
+          );
+        }
+        await previewSuggestedEdits(accepted);
+      }
+    } catch (error: any) {
+      this.log(`Failed to suggest edits: ${error.message}`);
+      vscode.window.showErrorMessage(
+        `Failed to suggest edits: ${error.message || "Unknown error"}`
+      );
+    } finally {
+      this.sendMessage({ type: "suggestEditsDone" });
+    }
+  }
+
   private async handleMessage(message: WebViewMessage) {
     switch (message.type) {
       case "ready":
         // Send component tree when webview is ready
         this.log("Webview ready message received, starting component tree load...");
         
+        this.refreshSessions();
+        this.sendServerEndpoints();
+
+        // A reloaded webview rejoins an ongoing recording from a snapshot
+        if (this.server?.isRecording()) {
+          this.sendMessage({
+            type: "recordingStarted",
+            session: this.server.getSession(),
+          });
+          this.sendLogsSnapshot();
+        } else if (this.storedSession) {
+          // Sessions shown before the webview loaded were never received
+          this.showSession(this.storedSession, this.storedLogs);
+        }
+        this.webviewReady = true;
+        if (this.pendingComponent) {
+          this.sendMessage({ type: "showComponent", id: this.pendingComponent });
+          this.pendingComponent = undefined;
+        }
+
         // Load component tree asynchronously (don't block the message handler)
         // Use a timeout to prevent infinite loading
         const timeoutPromise = new Promise<ComponentTreeNode[]>((_, reject) => {
@@ -234,9 +859,57 @@ export class ProfilerPanel {
         });
         break;
 
-      case "selectComponents":
-        // Update RN config with selected components
-        await this.updateSelectedComponents(message.components || []);
+      case "listSessions":
+        await this.refreshSessions();
+        break;
+
+      case "openSession":
+        if (message.id) {
+          await this.openSession(message.id);
+        }
+        break;
+
+      case "renameSession":
+        if (message.id) {
+          await this.renameSession(message.id);
+        }
+        break;
+
+      case "deleteSession":
+        if (message.id) {
+          await this.deleteSession(message.id);
+        }
+        break;
+
+      case "analyzeSession":
+        if (message.id) {
+          const logs = await this.openSession(message.id);
+          if (logs) {
+            await this.analyzeLogs(logs);
+          }
+        }
+        break;
+
+      case "compareSessions":
+        if (message.baselineId && message.candidateId) {
+          await this.compareStoredSessions(
+            message.baselineId,
+            message.candidateId
+          );
+        }
+        break;
+
+      case "analyzeComparison":
+        await this.analyzeComparison();
+        break;
+
+      case "suggestEdits":
+        await this.suggestEdits();
+        break;
+
+      case "selectComponents":
+        // Update RN config with selected components
+        await this.updateSelectedComponents(message.components || []);
         break;
 
       case "wrapComponents":
@@ -249,15 +922,43 @@ export class ProfilerPanel {
         await this.wrapComponents(message.components || []);
         break;
 
-      case "requestLogs":
-        if (this.server) {
-          this.sendMessage({
-            type: "logsUpdate",
-            logs: this.server.getLogs(),
-          });
+      case "copyText":
+        if (message.text) {
+          await vscode.env.clipboard.writeText(message.text);
+          vscode.window.showInformationMessage(`Copied ${message.text}`);
         }
         break;
 
+      case "copyToClipboard":
+        await this.copyLogs(
+          isLogExportFormat(message.format) ? message.format : "text",
+          message.clientId || undefined,
+          isTimeRange(message.range) ? message.range : undefined
+        );
+        break;
+
+      case "saveLogsToFile":
+        await this.saveLogs(
+          isLogExportFormat(message.format) ? message.format : "text",
+          message.clientId || undefined,
+          isTimeRange(message.range) ? message.range : undefined
+        );
+        break;
+
+      case "requestLogs":
+        // Resync after the webview detected a gap in the delta sequence
+        this.sendLogsSnapshot();
+        break;
+
+      case "checkBudgets":
+        await this.sendBudgetReport();
+        break;
+
+      case "requestStats":
+        this.statsClientId = message.clientId || undefined;
+        this.sendSessionStats();
+        break;
+
       case "openFile":
         // Open file in VS Code editor
         if (message.path) {
@@ -298,6 +999,18 @@ export class ProfilerPanel {
       })
       .filter((name) => name.length > 0);
 
+    // Push the list live to apps connected over the control channel,
+    // which avoids rewriting the config file (and a Metro reload)
+    if (this.server && this.server.getControlClients().length > 0) {
+      this.server.setComponents(componentNames);
+      vscode.window.showInformationMessage(
+        `Updated ${componentNames.length} components on ${
+          this.server.getControlClients().length
+        } connected app(s).`
+      );
+      return;
+    }
+
     // Find React Native project directory (supports monorepos)
     const rnPath = await this.findReactNativeProject(workspaceFolders[0].uri);
     if (!rnPath) {
@@ -315,16 +1028,12 @@ export class ProfilerPanel {
 
     // Only update component list, don't change PROFILING_ENABLED here
     // (It will be set when Start Recording is clicked)
-    const configContent = `// Auto-generated by RN Profiler AI extension
-// Changes to this file may require a Metro Bundler restart
-
-export const PROFILING_ENABLED: boolean = ${this.server?.isRunning() || false};
-export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
-      componentNames,
-      null,
-      2
-    )};
-`;
+    const configContent = renderRuntimeConfig({
+      enabled: this.server?.isRecording() || false,
+      components: componentNames,
+      authToken: ProfilerPanel.authToken,
+      endpoints: ProfilerPanel.serverEndpoints,
+    });
 
     try {
       await vscode.workspace.fs.writeFile(
@@ -704,161 +1413,595 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
             display: block;
         }
 
-        .section-content.collapsed {
-            display: none;
+        .section-content.collapsed {
+            display: none;
+        }
+
+        .controls {
+            display: flex;
+            gap: 8px;
+            flex-wrap: wrap;
+        }
+
+        button {
+            padding: 6px 14px;
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            border-radius: 4px;
+            cursor: pointer;
+            font-size: 13px;
+            transition: opacity 0.2s;
+        }
+
+        button:hover:not(:disabled) {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+
+        button:disabled {
+            opacity: 0.5;
+            cursor: not-allowed;
+        }
+
+        button.primary {
+            background-color: var(--vscode-button-background);
+        }
+
+        button.danger {
+            background-color: var(--vscode-errorForeground);
+        }
+
+        .treeview {
+            max-height: 500px;
+            overflow-y: auto;
+            font-size: 13px;
+        }
+
+        .tree-node {
+            display: flex;
+            align-items: center;
+            padding: 4px 8px;
+            cursor: pointer;
+            user-select: none;
+            border-radius: 3px;
+            margin: 2px 0;
+        }
+
+        .tree-node:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+
+        .tree-node.selected {
+            background-color: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+
+        .tree-node-content {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            flex: 1;
+            min-width: 0;
+        }
+
+        .tree-expand-icon {
+            width: 16px;
+            height: 16px;
+            display: inline-flex;
+            align-items: center;
+            justify-content: center;
+            font-size: 10px;
+            color: var(--vscode-descriptionForeground);
+            transition: transform 0.2s;
+            flex-shrink: 0;
+        }
+
+        .tree-expand-icon.collapsed {
+            transform: rotate(-90deg);
+        }
+
+        .tree-expand-icon.no-children {
+            width: 16px;
+            opacity: 0;
+        }
+
+        .tree-checkbox {
+            width: 16px;
+            height: 16px;
+            border: 1px solid var(--vscode-checkbox-border);
+            border-radius: 3px;
+            background-color: var(--vscode-checkbox-background);
+            display: inline-flex;
+            align-items: center;
+            justify-content: center;
+            flex-shrink: 0;
+            margin-right: 4px;
+        }
+
+        .tree-checkbox.checked {
+            background-color: var(--vscode-checkbox-selectBackground);
+            border-color: var(--vscode-checkbox-selectBorder);
+        }
+
+        .tree-checkbox.checked::after {
+            content: '✓';
+            color: var(--vscode-checkbox-foreground);
+            font-size: 12px;
+            font-weight: bold;
+        }
+
+        .tree-node-label {
+            flex: 1;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+
+        .tree-children {
+            margin-left: 20px;
+            display: block;
+        }
+
+        .tree-children.collapsed {
+            display: none;
+        }
+
+        .tree-subtree-btn {
+            margin-left: auto;
+            padding: 2px 8px;
+            font-size: 11px;
+            opacity: 0;
+            transition: opacity 0.2s;
+            margin-right: 4px;
+        }
+
+        .tree-node:hover .tree-subtree-btn {
+            opacity: 1;
+        }
+
+        .tree-stats {
+            font-size: 10px;
+            padding: 1px 6px;
+            border-radius: 10px;
+            margin-left: 6px;
+            white-space: nowrap;
+            color: var(--vscode-descriptionForeground);
+            border: 1px solid var(--vscode-panel-border);
+        }
+
+        .tree-stats.heat-mild {
+            border-color: var(--vscode-charts-green, var(--vscode-panel-border));
+        }
+
+        .tree-stats.heat-warm {
+            color: var(--vscode-editor-background);
+            background-color: var(--vscode-charts-yellow, var(--vscode-editorWarning-foreground));
+            border-color: transparent;
+        }
+
+        .tree-stats.heat-hot {
+            color: var(--vscode-editor-background);
+            background-color: var(--vscode-charts-red, var(--vscode-errorForeground));
+            border-color: transparent;
+        }
+
+        .tree-selection-count {
+            font-size: 10px;
+            color: var(--vscode-descriptionForeground);
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+            padding: 2px 6px;
+            border-radius: 10px;
+            margin-left: 6px;
+            font-weight: normal;
+        }
+
+        .session-bar {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            margin-bottom: 8px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .session-bar #sessionLabel {
+            flex: 1;
+        }
+
+        .server-urls {
+            margin-top: 10px;
+            display: flex;
+            gap: 12px;
+            align-items: flex-start;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .server-url-list {
+            flex: 1;
+            display: flex;
+            flex-direction: column;
+            gap: 4px;
+        }
+
+        .server-url-row {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+        }
+
+        .server-url-row code {
+            flex: 1;
+            color: var(--vscode-foreground);
+        }
+
+        .server-url-row button {
+            font-size: 11px;
+            padding: 2px 8px;
+        }
+
+        .server-url-qr {
+            width: 96px;
+            text-align: center;
+        }
+
+        .server-url-qr svg {
+            width: 96px;
+            height: 96px;
+            background: #fff;
+        }
+
+        .export-bar {
+            display: flex;
+            align-items: center;
+            justify-content: flex-end;
+            gap: 8px;
+            margin-bottom: 8px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .export-bar button {
+            font-size: 12px;
+            padding: 4px 10px;
+        }
+
+        .store-stats.warning {
+            color: var(--vscode-editorWarning-foreground);
+        }
+
+        select {
+            background-color: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+            border-radius: 3px;
+            padding: 2px 6px;
+            font-size: 12px;
+        }
+
+        .session-list {
+            max-height: 300px;
+            overflow-y: auto;
+            font-size: 12px;
+        }
+
+        .session-item {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 6px 8px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+
+        .session-item:last-child {
+            border-bottom: none;
+        }
+
+        .session-item.active {
+            background-color: var(--vscode-list-inactiveSelectionBackground);
+        }
+
+        .session-item-info {
+            flex: 1;
+            min-width: 0;
+        }
+
+        .session-item-name {
+            font-weight: 600;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+
+        .session-item-details {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .session-item button {
+            padding: 2px 8px;
+            font-size: 11px;
+        }
+
+        .compare-bar {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 6px;
+            margin-bottom: 8px;
+            font-size: 12px;
+        }
+
+        .compare-bar select {
+            flex: 1;
+            min-width: 120px;
+        }
+
+        .comparison-summary {
+            font-size: 12px;
+            margin-bottom: 8px;
+        }
+
+        .comparison-table-wrapper {
+            max-height: 400px;
+            overflow: auto;
+        }
+
+        .comparison-table,
+        .stats-table {
+            width: 100%;
+            border-collapse: collapse;
+            font-size: 11px;
+        }
+
+        .comparison-table th,
+        .comparison-table td,
+        .stats-table th,
+        .stats-table td {
+            padding: 3px 6px;
+            text-align: right;
+            white-space: nowrap;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+
+        .comparison-table th:first-child,
+        .comparison-table td:first-child,
+        .comparison-table td.verdict,
+        .stats-table th:first-child,
+        .stats-table td:first-child {
+            text-align: left;
+        }
+
+        .comparison-table th,
+        .stats-table th {
+            position: sticky;
+            top: 0;
+            background-color: var(--vscode-editor-background);
+        }
+
+        .stats-summary {
+            font-size: 12px;
+            margin-bottom: 8px;
+        }
+
+        .stats-table-wrapper {
+            max-height: 400px;
+            overflow: auto;
+        }
+
+        .stats-table th.sortable {
+            cursor: pointer;
+        }
+
+        .stats-table th.sorted {
+            color: var(--vscode-textLink-foreground);
+        }
+
+        .stats-table td.over-frame {
+            color: var(--vscode-errorForeground);
+        }
+
+        .stats-table tr.selected td {
+            background-color: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+
+        .stats-table tr:not(:first-child) {
+            cursor: pointer;
+        }
+
+        .component-detail {
+            font-size: 12px;
+            margin-bottom: 8px;
+            padding: 6px 8px;
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 3px;
+        }
+
+        .component-detail-title {
+            display: flex;
+            justify-content: space-between;
+            font-weight: bold;
+            margin-bottom: 4px;
+        }
+
+        .component-detail .histogram {
+            height: 40px;
+            margin-top: 4px;
+        }
+
+        .component-detail .histogram span {
+            width: 12px;
+        }
+
+        .histogram {
+            display: inline-flex;
+            align-items: flex-end;
+            gap: 1px;
+            height: 16px;
+            vertical-align: middle;
+        }
+
+        .histogram span {
+            width: 4px;
+            min-height: 1px;
+            background-color: var(--vscode-charts-blue, var(--vscode-textLink-foreground));
+        }
+
+        .histogram span.over-frame {
+            background-color: var(--vscode-charts-red, var(--vscode-errorForeground));
         }
 
-        .controls {
+        .timeline-bar {
             display: flex;
-            gap: 8px;
             flex-wrap: wrap;
+            align-items: flex-start;
+            gap: 6px;
+            margin-bottom: 8px;
+            font-size: 12px;
         }
 
-        button {
-            padding: 6px 14px;
-            background-color: var(--vscode-button-background);
-            color: var(--vscode-button-foreground);
-            border: none;
-            border-radius: 4px;
-            cursor: pointer;
-            font-size: 13px;
-            transition: opacity 0.2s;
+        .timeline-bar select {
+            flex: 1;
+            min-width: 160px;
         }
 
-        button:hover:not(:disabled) {
-            background-color: var(--vscode-button-hoverBackground);
+        .timeline-chart {
+            display: block;
+            width: 100%;
+            cursor: crosshair;
+            user-select: none;
         }
 
-        button:disabled {
-            opacity: 0.5;
-            cursor: not-allowed;
+        .timeline-chart text {
+            font-size: 10px;
+            fill: var(--vscode-descriptionForeground);
         }
 
-        button.primary {
-            background-color: var(--vscode-button-background);
+        .timeline-axis {
+            stroke: var(--vscode-panel-border);
         }
 
-        button.danger {
-            background-color: var(--vscode-errorForeground);
+        .timeline-guide {
+            stroke: var(--vscode-errorForeground);
+            stroke-dasharray: 4 3;
+            opacity: 0.6;
         }
 
-        .treeview {
-            max-height: 500px;
-            overflow-y: auto;
-            font-size: 13px;
+        .timeline-guide.half-frame {
+            stroke: var(--vscode-editorWarning-foreground);
         }
 
-        .tree-node {
-            display: flex;
-            align-items: center;
-            padding: 4px 8px;
-            cursor: pointer;
-            user-select: none;
-            border-radius: 3px;
-            margin: 2px 0;
+        .timeline-brush {
+            fill: var(--vscode-editor-selectionBackground);
+            opacity: 0.4;
         }
 
-        .tree-node:hover {
-            background-color: var(--vscode-list-hoverBackground);
+        .timeline-legend {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 10px;
+            font-size: 11px;
+            margin: 4px 0;
         }
 
-        .tree-node.selected {
-            background-color: var(--vscode-list-activeSelectionBackground);
-            color: var(--vscode-list-activeSelectionForeground);
+        .timeline-swatch {
+            display: inline-block;
+            width: 8px;
+            height: 8px;
+            margin-right: 4px;
+            border-radius: 50%;
         }
 
-        .tree-node-content {
-            display: flex;
-            align-items: center;
-            gap: 6px;
-            flex: 1;
-            min-width: 0;
+        .timeline-selection {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
         }
 
-        .tree-expand-icon {
-            width: 16px;
-            height: 16px;
-            display: inline-flex;
-            align-items: center;
-            justify-content: center;
-            font-size: 10px;
-            color: var(--vscode-descriptionForeground);
-            transition: transform 0.2s;
-            flex-shrink: 0;
+        .commit-chart {
+            display: flex;
+            align-items: flex-end;
+            gap: 1px;
+            height: 60px;
+            overflow-x: auto;
+            overflow-y: hidden;
+            padding-bottom: 2px;
+            border-bottom: 1px solid var(--vscode-panel-border);
         }
 
-        .tree-expand-icon.collapsed {
-            transform: rotate(-90deg);
+        .commit-bar {
+            flex: 0 0 6px;
+            min-height: 2px;
+            cursor: pointer;
+            opacity: 0.7;
+            background-color: var(--vscode-charts-green, var(--vscode-textLink-foreground));
         }
 
-        .tree-expand-icon.no-children {
-            width: 16px;
-            opacity: 0;
+        .commit-bar.half-frame {
+            background-color: var(--vscode-charts-yellow, var(--vscode-editorWarning-foreground));
         }
 
-        .tree-checkbox {
-            width: 16px;
-            height: 16px;
-            border: 1px solid var(--vscode-checkbox-border);
-            border-radius: 3px;
-            background-color: var(--vscode-checkbox-background);
-            display: inline-flex;
-            align-items: center;
-            justify-content: center;
-            flex-shrink: 0;
-            margin-right: 4px;
+        .commit-bar.over-frame {
+            background-color: var(--vscode-charts-red, var(--vscode-errorForeground));
         }
 
-        .tree-checkbox.checked {
-            background-color: var(--vscode-checkbox-selectBackground);
-            border-color: var(--vscode-checkbox-selectBorder);
+        .commit-bar.selected {
+            opacity: 1;
+            outline: 1px solid var(--vscode-focusBorder);
         }
 
-        .tree-checkbox.checked::after {
-            content: '✓';
-            color: var(--vscode-checkbox-foreground);
+        .commit-nav {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            margin: 8px 0;
             font-size: 12px;
-            font-weight: bold;
         }
 
-        .tree-node-label {
-            flex: 1;
-            overflow: hidden;
-            text-overflow: ellipsis;
-            white-space: nowrap;
+        .ranked-chart {
+            max-height: 300px;
+            overflow-y: auto;
         }
 
-        .tree-children {
-            margin-left: 20px;
-            display: block;
+        .ranked-row {
+            position: relative;
+            height: 20px;
+            margin-bottom: 2px;
+            cursor: pointer;
         }
 
-        .tree-children.collapsed {
-            display: none;
+        .ranked-bar {
+            position: absolute;
+            top: 0;
+            left: 0;
+            bottom: 0;
+            min-width: 2px;
+            background-color: var(--vscode-charts-blue, var(--vscode-textLink-foreground));
         }
 
-        .tree-subtree-btn {
-            margin-left: auto;
-            padding: 2px 8px;
+        .ranked-label {
+            position: relative;
+            padding: 0 6px;
+            line-height: 20px;
             font-size: 11px;
-            opacity: 0;
-            transition: opacity 0.2s;
-            margin-right: 4px;
+            white-space: nowrap;
         }
 
-        .tree-node:hover .tree-subtree-btn {
-            opacity: 1;
+        .verdict.regressed {
+            color: var(--vscode-errorForeground);
+            font-weight: 600;
         }
 
-        .tree-selection-count {
-            font-size: 10px;
+        .verdict.improved {
+            color: var(--vscode-testing-iconPassed, var(--vscode-textLink-foreground));
+            font-weight: 600;
+        }
+
+        .verdict.unchanged,
+        .verdict.added,
+        .verdict.removed {
             color: var(--vscode-descriptionForeground);
-            background-color: var(--vscode-badge-background);
-            color: var(--vscode-badge-foreground);
-            padding: 2px 6px;
-            border-radius: 10px;
-            margin-left: 6px;
-            font-weight: normal;
         }
 
         .log-display {
@@ -905,6 +2048,56 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
             margin-left: 8px;
         }
 
+        .log-entry.over-budget .log-entry-component,
+        .log-entry.over-budget .log-entry-duration {
+            color: var(--vscode-errorForeground);
+        }
+
+        .budget-summary {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            margin-bottom: 8px;
+            font-size: 12px;
+        }
+
+        .budget-summary .budget-status {
+            flex: 1;
+            font-weight: 600;
+        }
+
+        .budget-status.passed {
+            color: var(--vscode-testing-iconPassed, var(--vscode-textLink-foreground));
+        }
+
+        .budget-status.failed {
+            color: var(--vscode-errorForeground);
+        }
+
+        .budget-check {
+            padding: 3px 0;
+            font-size: 12px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+
+        .budget-check:last-child {
+            border-bottom: none;
+        }
+
+        .budget-check.failed {
+            color: var(--vscode-errorForeground);
+        }
+
+        .budget-check.skipped {
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .analysis-actions {
+            display: flex;
+            gap: 6px;
+            margin-bottom: 8px;
+        }
+
         .analysis-output {
             max-height: 600px;
             overflow-y: auto;
@@ -1017,6 +2210,7 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
                 <div class="section-header-title">
                     <span class="status-indicator" id="statusIndicator"></span>
                     <span>Profiling Controls</span>
+                    <span id="connectedApps" style="font-size: 11px; color: var(--vscode-descriptionForeground); font-weight: normal;">(no apps connected)</span>
                 </div>
                 <span class="section-toggle" id="controlsToggle">▼</span>
             </div>
@@ -1027,6 +2221,7 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
                     <button id="stopBtn" disabled>Stop Recording</button>
                     <button id="analyzeBtn" disabled>Analyze Logs</button>
                 </div>
+                <div class="server-urls" id="serverUrls"></div>
             </div>
         </div>
 
@@ -1045,6 +2240,11 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
                     <span style="flex: 1; font-size: 11px; color: var(--vscode-descriptionForeground); align-self: center;">
                         Click checkbox to select/deselect • Hover over nodes to see subtree actions
                     </span>
+                    <label for="treeSort" style="font-size: 12px; align-self: center;">Sort:</label>
+                    <select id="treeSort">
+                        <option value="name">Name</option>
+                        <option value="cost">Render time</option>
+                    </select>
                 </div>
                 <div class="treeview" id="treeview">
                     <div class="loading">Loading component tree...</div>
@@ -1062,12 +2262,147 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
                 <span class="section-toggle" id="logsToggle">▼</span>
             </div>
             <div class="section-content" id="logsContent">
+                <div class="session-bar">
+                    <span id="sessionLabel">No session</span>
+                    <span id="storeStats" class="store-stats"></span>
+                    <label for="clientFilter">Device:</label>
+                    <select id="clientFilter">
+                        <option value="">All devices</option>
+                    </select>
+                </div>
+                <div class="export-bar">
+                    <label for="exportFormat">Export as:</label>
+                    <select id="exportFormat">
+                        <option value="text">Plain text</option>
+                        <option value="csv">CSV</option>
+                        <option value="ndjson">NDJSON</option>
+                        <option value="markdown">Markdown summary</option>
+                    </select>
+                    <button id="copyLogsBtn">Copy Logs</button>
+                    <button id="saveLogsBtn">Save Logs</button>
+                </div>
                 <div class="log-display" id="logDisplay">
                     <div class="empty-state">No logs yet. Start recording to see profiling data.</div>
                 </div>
             </div>
         </div>
 
+        <!-- Timeline -->
+        <div class="section">
+            <div class="section-header" onclick="toggleSection('timeline')">
+                <div class="section-header-title">
+                    <span>Timeline</span>
+                    <span id="timelineCount" style="font-size: 11px; color: var(--vscode-descriptionForeground); font-weight: normal;"></span>
+                </div>
+                <span class="section-toggle" id="timelineToggle">▼</span>
+            </div>
+            <div class="section-content" id="timelineContent">
+                <div class="timeline-bar">
+                    <label for="timelineComponents">Components:</label>
+                    <select id="timelineComponents" multiple size="4"></select>
+                    <button id="zoomTimelineBtn" disabled>Zoom to Selection</button>
+                    <button id="resetTimelineBtn" disabled>Reset</button>
+                </div>
+                <svg class="timeline-chart" id="timelineChart" height="180"></svg>
+                <div class="timeline-legend" id="timelineLegend"></div>
+                <div class="timeline-selection" id="timelineSelection">Drag across the chart to select a time range; the log list, exports and analysis then only use logs from that range.</div>
+            </div>
+        </div>
+
+        <!-- Commits -->
+        <div class="section">
+            <div class="section-header" onclick="toggleSection('commits')">
+                <div class="section-header-title">
+                    <span>Commits</span>
+                    <span id="commitsCount" style="font-size: 11px; color: var(--vscode-descriptionForeground); font-weight: normal;"></span>
+                </div>
+                <span class="section-toggle" id="commitsToggle">▼</span>
+            </div>
+            <div class="section-content" id="commitsContent">
+                <div class="commit-chart" id="commitChart"></div>
+                <div class="commit-nav">
+                    <button id="prevCommitBtn" disabled>◀</button>
+                    <span id="commitLabel">Open or record a session to browse its commits.</span>
+                    <button id="nextCommitBtn" disabled>▶</button>
+                </div>
+                <div class="ranked-chart" id="rankedChart"></div>
+            </div>
+        </div>
+
+        <!-- Statistics -->
+        <div class="section">
+            <div class="section-header" onclick="toggleSection('stats')">
+                <div class="section-header-title">
+                    <span>Statistics</span>
+                    <span id="statsCount" style="font-size: 11px; color: var(--vscode-descriptionForeground); font-weight: normal;"></span>
+                </div>
+                <span class="section-toggle" id="statsToggle">▼</span>
+            </div>
+            <div class="section-content" id="statsContent">
+                <div class="stats-summary" id="statsSummary">Open or record a session to see per-component statistics.</div>
+                <div class="component-detail" id="componentDetail" style="display: none;"></div>
+                <div class="stats-table-wrapper" id="statsTable"></div>
+            </div>
+        </div>
+
+        <!-- Budgets -->
+        <div class="section">
+            <div class="section-header" onclick="toggleSection('budgets')">
+                <div class="section-header-title">
+                    <span>Budgets</span>
+                    <span id="budgetsCount" style="font-size: 11px; color: var(--vscode-descriptionForeground); font-weight: normal;"></span>
+                </div>
+                <span class="section-toggle" id="budgetsToggle">▼</span>
+            </div>
+            <div class="section-content" id="budgetsContent">
+                <div class="budget-summary">
+                    <span id="budgetStatus" class="budget-status">Open or record a session to check it against .rn-profiler/budgets.json.</span>
+                    <button id="checkBudgetsBtn">Re-check</button>
+                </div>
+                <div id="budgetChecks"></div>
+            </div>
+        </div>
+
+        <!-- Sessions -->
+        <div class="section">
+            <div class="section-header" onclick="toggleSection('sessions')">
+                <div class="section-header-title">
+                    <span>Sessions</span>
+                    <span id="sessionsCount" style="font-size: 11px; color: var(--vscode-descriptionForeground); font-weight: normal;">(0 saved)</span>
+                </div>
+                <span class="section-toggle" id="sessionsToggle">▼</span>
+            </div>
+            <div class="section-content" id="sessionsContent">
+                <div class="session-list" id="sessionList">
+                    <div class="empty-state">No saved sessions yet. Recordings are saved when you stop them.</div>
+                </div>
+            </div>
+        </div>
+
+        <!-- Compare Sessions -->
+        <div class="section">
+            <div class="section-header" onclick="toggleSection('compare')">
+                <div class="section-header-title">
+                    <span>Compare Sessions</span>
+                </div>
+                <span class="section-toggle" id="compareToggle">▼</span>
+            </div>
+            <div class="section-content" id="compareContent">
+                <div class="compare-bar">
+                    <label for="baselineSelect">Baseline:</label>
+                    <select id="baselineSelect"></select>
+                    <label for="candidateSelect">Candidate:</label>
+                    <select id="candidateSelect"></select>
+                    <button id="compareBtn">Compare</button>
+                    <button id="analyzeComparisonBtn" disabled>Analyze</button>
+                </div>
+                <div class="comparison-summary" id="comparisonSummary">
+                    Pick a baseline (before a change) and a candidate (after it) from the saved sessions.
+                </div>
+                <div class="comparison-table-wrapper" id="comparisonTable"></div>
+            </div>
+        </div>
+
         <!-- AI Analysis -->
         <div class="section">
             <div class="section-header" onclick="toggleSection('analysis')">
@@ -1077,6 +2412,9 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
                 <span class="section-toggle" id="analysisToggle">▼</span>
             </div>
             <div class="section-content" id="analysisContent">
+                <div class="analysis-actions" id="analysisActions" style="display: none;">
+                    <button id="suggestEditsBtn" title="Ask the AI for edits to the components' files and review them in a diff before applying">Apply Suggestions...</button>
+                </div>
                 <div class="analysis-output" id="analysisOutput">
                     <div class="empty-state">Analysis will appear here after you analyze logs.</div>
                 </div>
@@ -1109,9 +2447,28 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
             let selectedComponents = new Set();
             let isRecording = false;
             let logs = [];
+            let lastSeq = 0; // Sequence number of the newest log received
+            let resyncRequested = false;
+            let visibleLogCount = 0;
+            const MAX_RENDERED_LOGS = 500; // Newest entries kept in the DOM
+            let session = null;
+            let selectedClientId = '';
             let treeData = [];
             let expandedNodes = new Set();
-            let collapsedSections = new Set(['logs', 'analysis']); // Start with logs and analysis collapsed
+            let savedSessions = [];
+            let overBudget = new Set(); // Components exceeding a budget in the shown session
+            let sessionStats = null;
+            let commits = [];
+            let timeRange = null; // { start, end } in epoch ms, selected on the timeline
+            let timelineZoom = null; // Time span the timeline shows, or null for the whole session
+            let timelineComponents = null; // Ids plotted; null picks the slowest ones
+            let timelineScheduled = false;
+            let treeSort = 'name'; // 'name', or 'cost' for most render time first
+            let treeCosts = new Map(); // Node path -> render stats of the node (or its subtree)
+            let selectedCommit = -1; // Index into commits
+            let statsSort = { column: 5, descending: true }; // Total render time, largest first
+            let selectedStatsId = null; // Component whose details are shown above the table
+            let collapsedSections = new Set(['logs', 'timeline', 'commits', 'stats', 'budgets', 'sessions', 'compare', 'analysis']); // Start with everything but controls and components collapsed
 
             // Send ready message - try multiple times to ensure it gets through
             function sendReady() {
@@ -1156,6 +2513,9 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
         function toggleSection(sectionId) {
             if (collapsedSections.has(sectionId)) {
                 collapsedSections.delete(sectionId);
+                if (sectionId === 'timeline') {
+                    scheduleTimeline();
+                }
             } else {
                 collapsedSections.add(sectionId);
             }
@@ -1163,7 +2523,7 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
         }
 
         function updateSectionStates() {
-            ['controls', 'components', 'logs', 'analysis'].forEach(id => {
+            ['controls', 'components', 'logs', 'timeline', 'commits', 'stats', 'budgets', 'sessions', 'compare', 'analysis'].forEach(id => {
                 const content = document.getElementById(id + 'Content');
                 const toggle = document.getElementById(id + 'Toggle');
                 if (content && toggle) {
@@ -1222,7 +2582,16 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
                 const analyzeBtn = document.getElementById('analyzeBtn');
                 if (analyzeBtn) {
                     analyzeBtn.addEventListener('click', () => {
-                        vscode.postMessage({ type: 'analyzeLogs' });
+                        vscode.postMessage({ type: 'analyzeLogs', clientId: selectedClientId, range: timeRange });
+                    });
+                }
+
+                const clientFilter = document.getElementById('clientFilter');
+                if (clientFilter) {
+                    clientFilter.addEventListener('change', () => {
+                        selectedClientId = clientFilter.value;
+                        renderLogs(logs);
+                        vscode.postMessage({ type: 'requestStats', clientId: selectedClientId });
                     });
                 }
 
@@ -1233,6 +2602,64 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
                     });
                 }
 
+                const compareBtn = document.getElementById('compareBtn');
+                if (compareBtn) {
+                    compareBtn.addEventListener('click', () => {
+                        const baselineId = document.getElementById('baselineSelect').value;
+                        const candidateId = document.getElementById('candidateSelect').value;
+                        if (!baselineId || !candidateId || baselineId === candidateId) {
+                            alert('Pick two different saved sessions to compare');
+                            return;
+                        }
+                        vscode.postMessage({ type: 'compareSessions', baselineId, candidateId });
+                    });
+                }
+
+                const analyzeComparisonBtn = document.getElementById('analyzeComparisonBtn');
+                if (analyzeComparisonBtn) {
+                    analyzeComparisonBtn.addEventListener('click', () => {
+                        vscode.postMessage({ type: 'analyzeComparison' });
+                        collapsedSections.delete('analysis');
+                        updateSectionStates();
+                    });
+                }
+
+                const suggestEditsBtn = document.getElementById('suggestEditsBtn');
+                if (suggestEditsBtn) {
+                    suggestEditsBtn.addEventListener('click', () => {
+                        suggestEditsBtn.disabled = true;
+                        suggestEditsBtn.textContent = 'Preparing edits...';
+                        vscode.postMessage({ type: 'suggestEdits' });
+                    });
+                }
+
+                setupTimeline();
+
+                const treeSortSelect = document.getElementById('treeSort');
+                if (treeSortSelect) {
+                    treeSortSelect.addEventListener('change', () => {
+                        treeSort = treeSortSelect.value;
+                        renderTree(treeData);
+                    });
+                }
+
+                const prevCommitBtn = document.getElementById('prevCommitBtn');
+                if (prevCommitBtn) {
+                    prevCommitBtn.addEventListener('click', () => selectCommit(selectedCommit - 1));
+                }
+
+                const nextCommitBtn = document.getElementById('nextCommitBtn');
+                if (nextCommitBtn) {
+                    nextCommitBtn.addEventListener('click', () => selectCommit(selectedCommit + 1));
+                }
+
+                const checkBudgetsBtn = document.getElementById('checkBudgetsBtn');
+                if (checkBudgetsBtn) {
+                    checkBudgetsBtn.addEventListener('click', () => {
+                        vscode.postMessage({ type: 'checkBudgets' });
+                    });
+                }
+
                 const saveLogsBtn = document.getElementById('saveLogsBtn');
                 if (saveLogsBtn) {
                     saveLogsBtn.addEventListener('click', () => {
@@ -1261,31 +2688,113 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
                     break;
                 case 'recordingStarted':
                     isRecording = true;
+                    logs = [];
+                    resetTimeline();
+                    renderBudgetReport(null);
+                    renderStats(null);
+                    renderCommits([]);
+                    lastSeq = 0;
+                    resyncRequested = false;
                     updateStatus(true);
                     updateButtons();
+                    renderSession(message.session);
+                    renderLogs(logs);
+                    renderSessionList();
                     break;
                 case 'recordingStopped':
                     isRecording = false;
                     updateStatus(false);
                     updateButtons();
+                    if (message.session) {
+                        renderSession(message.session);
+                    }
                     if (message.logs) {
                         logs = message.logs;
                         renderLogs(logs);
                     }
+                    renderSessionList();
+                    break;
+                case 'logsDelta':
+                    if (!session || message.sessionId !== session.id || message.afterSeq !== lastSeq) {
+                        // Missed a delta (or joined mid-recording): ask for a full snapshot once
+                        if (!resyncRequested) {
+                            resyncRequested = true;
+                            vscode.postMessage({ type: 'requestLogs' });
+                        }
+                        break;
+                    }
+                    lastSeq = message.lastSeq;
+                    renderSession(message.session);
+                    appendLogs(message.logs || []);
+                    break;
+                case 'logsSnapshot':
+                    resyncRequested = false;
+                    lastSeq = message.lastSeq;
+                    renderSession(message.session);
+                    logs = message.logs || [];
+                    renderLogs(logs);
+                    break;
+                case 'sessionsList':
+                    savedSessions = message.sessions || [];
+                    renderSessionList();
                     break;
-                case 'logsUpdate':
+                case 'sessionOpened':
+                    resetTimeline();
+                    renderSession(message.session);
                     logs = message.logs || [];
                     renderLogs(logs);
+                    updateButtons();
+                    renderSessionList();
+                    break;
+                case 'controlClientsUpdate':
+                    renderConnectedApps(message.clients || []);
+                    break;
+                case 'serverEndpoints':
+                    renderServerEndpoints(message.endpoints, message.qrSvg);
+                    break;
+                case 'comparisonResult':
+                    renderComparison(message);
+                    break;
+                case 'showComponent':
+                    collapsedSections.delete('stats');
+                    updateSectionStates();
+                    selectedStatsId = message.id;
+                    renderStats(sessionStats);
+                    document.getElementById('componentDetail').scrollIntoView({ block: 'nearest' });
+                    break;
+                case 'sessionStats':
+                    if (session && message.sessionId === session.id) {
+                        if ((message.clientId || '') !== selectedClientId) {
+                            // The device filter changed since; ask again for the picked device
+                            vscode.postMessage({ type: 'requestStats', clientId: selectedClientId });
+                            break;
+                        }
+                        renderStats(message.stats);
+                        renderCommits(message.commits || []);
+                    }
+                    break;
+                case 'budgetReport':
+                    if (session && message.sessionId === session.id) {
+                        renderBudgetReport(message);
+                        renderLogs(logs);
+                    }
                     break;
                 case 'analysisStarted':
+                    document.getElementById('analysisActions').style.display = 'none';
                     document.getElementById('analysisOutput').innerHTML = '<div class="loading">Analyzing logs...</div>';
                     break;
                 case 'analysisComplete':
+                    document.getElementById('analysisActions').style.display = message.canSuggestEdits ? 'flex' : 'none';
                     renderAnalysis(message.analysis);
                     break;
                 case 'analysisError':
+                    document.getElementById('analysisActions').style.display = 'none';
                     document.getElementById('analysisOutput').innerHTML = 
-                        '<div style="color: var(--vscode-errorForeground);">Error: ' + message.error + '</div>';
+                        '<div style="color: var(--vscode-errorForeground);">Error: ' + escapeHtml(message.error) + '</div>';
+                    break;
+                case 'suggestEditsDone':
+                    document.getElementById('suggestEditsBtn').disabled = false;
+                    document.getElementById('suggestEditsBtn').textContent = 'Apply Suggestions...';
                     break;
             }
         });
@@ -1302,6 +2811,252 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
             document.getElementById('analyzeBtn').disabled = logs.length === 0;
         }
 
+        function renderConnectedApps(clients) {
+            const el = document.getElementById('connectedApps');
+            if (!el) {
+                return;
+            }
+            if (clients.length === 0) {
+                el.textContent = '(no apps connected)';
+                el.title = '';
+                return;
+            }
+            el.textContent = '(' + clients.length + ' app' + (clients.length === 1 ? '' : 's') + ' connected)';
+            el.title = clients.map(c => c.deviceInfo.os + ' ' + c.deviceInfo.version + ' • client ' + c.clientId).join('\\n');
+        }
+
+        function renderServerEndpoints(endpoints, qrSvg) {
+            const container = document.getElementById('serverUrls');
+            if (!container || !endpoints) {
+                return;
+            }
+
+            const list = document.createElement('div');
+            list.className = 'server-url-list';
+            [
+                ['iOS simulator', endpoints.targets.simulator],
+                ['Android emulator', endpoints.targets.androidEmulator],
+                ['Physical device', endpoints.targets.device]
+            ].forEach(([label, url]) => {
+                const row = document.createElement('div');
+                row.className = 'server-url-row';
+                const name = document.createElement('span');
+                name.textContent = label + ':';
+                row.appendChild(name);
+                const value = document.createElement('code');
+                value.textContent = url || 'unreachable (set rnProfilerAI.bindAddress to 0.0.0.0)';
+                row.appendChild(value);
+                if (url) {
+                    const copy = document.createElement('button');
+                    copy.textContent = 'Copy';
+                    copy.onclick = () => vscode.postMessage({ type: 'copyText', text: url });
+                    row.appendChild(copy);
+                }
+                list.appendChild(row);
+            });
+
+            container.innerHTML = '';
+            container.appendChild(list);
+            if (qrSvg) {
+                const qr = document.createElement('div');
+                qr.className = 'server-url-qr';
+                qr.title = 'Scan with a phone to check it can reach the profiler server';
+                qr.innerHTML = qrSvg + '<div>Scan to test</div>';
+                container.appendChild(qr);
+            }
+        }
+
+        function describeClient(client) {
+            const device = client.deviceInfo || {};
+            return (device.os || 'unknown') + ' ' + (device.version || '') +
+                (device.model ? ' (' + device.model + ')' : '') +
+                ' • ' + client.logCount + ' logs';
+        }
+
+        function renderStoreStats(stats) {
+            const el = document.getElementById('storeStats');
+            if (!el) {
+                return;
+            }
+            if (!stats || (stats.dropped === 0 && stats.spilled === 0)) {
+                el.textContent = '';
+                el.className = 'store-stats';
+                el.title = '';
+                return;
+            }
+            const parts = [];
+            if (stats.dropped > 0) {
+                parts.push(stats.dropped + ' dropped');
+            }
+            if (stats.spilled > 0) {
+                parts.push(stats.spilled + ' spilled to disk');
+            }
+            el.textContent = parts.join(' • ');
+            el.className = 'store-stats warning';
+            el.title = 'Memory limit of ' + stats.capacity + ' logs reached: ' +
+                stats.received + ' received, ' + stats.stored + ' kept in memory';
+        }
+
+        function renderSession(newSession) {
+            session = newSession || null;
+            const label = document.getElementById('sessionLabel');
+            const filter = document.getElementById('clientFilter');
+            if (!label || !filter) {
+                return;
+            }
+
+            if (!session) {
+                label.textContent = 'No session';
+                return;
+            }
+
+            renderStoreStats(session.storeStats);
+
+            const started = new Date(session.startTime).toLocaleTimeString();
+            const ended = session.endTime ? new Date(session.endTime).toLocaleTimeString() : 'recording';
+            label.textContent = 'Session ' + session.id + ' • ' + started + ' – ' + ended;
+
+            // Keep the current selection if that device is still part of the session
+            const clients = session.clients || [];
+            if (selectedClientId && !clients.some(c => c.clientId === selectedClientId)) {
+                selectedClientId = '';
+            }
+
+            filter.innerHTML = '';
+            const allOption = document.createElement('option');
+            allOption.value = '';
+            allOption.textContent = 'All devices (' + clients.length + ')';
+            filter.appendChild(allOption);
+            clients.forEach(client => {
+                const option = document.createElement('option');
+                option.value = client.clientId;
+                option.textContent = describeClient(client);
+                filter.appendChild(option);
+            });
+            filter.value = selectedClientId;
+        }
+
+        function renderSessionList() {
+            const container = document.getElementById('sessionList');
+            const countEl = document.getElementById('sessionsCount');
+            if (countEl) {
+                countEl.textContent = '(' + savedSessions.length + ' saved)';
+            }
+            if (!container) {
+                return;
+            }
+
+            renderCompareOptions();
+            if (savedSessions.length === 0) {
+                container.innerHTML = '<div class="empty-state">No saved sessions yet. Recordings are saved when you stop them.</div>';
+                return;
+            }
+
+            container.innerHTML = '';
+            savedSessions.forEach(saved => {
+                const item = document.createElement('div');
+                item.className = 'session-item' + (session && session.id === saved.id ? ' active' : '');
+
+                const info = document.createElement('div');
+                info.className = 'session-item-info';
+                const name = document.createElement('div');
+                name.className = 'session-item-name';
+                name.textContent = saved.name;
+                name.title = saved.id;
+                const details = document.createElement('div');
+                details.className = 'session-item-details';
+                details.textContent = new Date(saved.startTime).toLocaleString() + ' • ' +
+                    saved.logCount + ' logs • ' + (saved.clients || []).length + ' device(s)';
+                info.appendChild(name);
+                info.appendChild(details);
+                item.appendChild(info);
+
+                [['Open', 'openSession'], ['Analyze', 'analyzeSession'], ['Trace', 'exportTrace'], ['Rename', 'renameSession'], ['Delete', 'deleteSession']].forEach(([label, type]) => {
+                    const button = document.createElement('button');
+                    button.textContent = label;
+                    button.disabled = isRecording && type !== 'renameSession';
+                    button.onclick = () => vscode.postMessage({ type: type, id: saved.id });
+                    item.appendChild(button);
+                });
+
+                container.appendChild(item);
+            });
+        }
+
+        // Fills the baseline/candidate pickers, keeping the current choices;
+        // defaults to the two most recent sessions (older one as baseline)
+        function renderCompareOptions() {
+            const baselineSelect = document.getElementById('baselineSelect');
+            const candidateSelect = document.getElementById('candidateSelect');
+            const previous = [baselineSelect.value, candidateSelect.value];
+            const defaults = [savedSessions[1], savedSessions[0]].map(saved => saved ? saved.id : '');
+
+            [baselineSelect, candidateSelect].forEach((select, index) => {
+                select.innerHTML = '';
+                savedSessions.forEach(saved => {
+                    const option = document.createElement('option');
+                    option.value = saved.id;
+                    option.textContent = saved.name + ' (' + new Date(saved.startTime).toLocaleString() + ')';
+                    select.appendChild(option);
+                });
+                const keep = savedSessions.some(saved => saved.id === previous[index]);
+                select.value = keep ? previous[index] : defaults[index];
+            });
+        }
+
+        function renderComparison(result) {
+            const comparison = result.comparison;
+            const summary = document.getElementById('comparisonSummary');
+            const container = document.getElementById('comparisonTable');
+            const counts = comparison.summary;
+            summary.textContent = result.baseline.name + ' → ' + result.candidate.name + ': ' +
+                counts.regressed + ' regressed, ' + counts.improved + ' improved, ' +
+                counts.unchanged + ' unchanged, ' + counts.added + ' added, ' + counts.removed + ' removed ' +
+                '(Mann-Whitney U, p < ' + comparison.significanceLevel + ')';
+            document.getElementById('analyzeComparisonBtn').disabled = false;
+
+            const ms = value => value === undefined || value === null ? '–' : value.toFixed(2);
+            const pair = (before, after) => before + ' → ' + after;
+            const table = document.createElement('table');
+            table.className = 'comparison-table';
+            const header = table.insertRow();
+            ['Component', 'Verdict', 'Renders', 'Mean (ms)', 'p50 (ms)', 'p95 (ms)', 'Mount (ms)', 'Δ median', 'p'].forEach(label => {
+                const th = document.createElement('th');
+                th.textContent = label;
+                header.appendChild(th);
+            });
+
+            comparison.components.forEach(component => {
+                const before = component.baseline;
+                const after = component.candidate;
+                const row = table.insertRow();
+                [
+                    component.id,
+                    component.verdict,
+                    pair(before.count, after.count),
+                    pair(ms(before.mean), ms(after.mean)),
+                    pair(ms(before.p50), ms(after.p50)),
+                    pair(ms(before.p95), ms(after.p95)),
+                    pair(ms(before.mountMean), ms(after.mountMean)),
+                    component.medianChange === undefined ? '–'
+                        : (component.medianChange >= 0 ? '+' : '') + (component.medianChange * 100).toFixed(1) + '%',
+                    component.pValue === undefined ? '–' : component.pValue.toFixed(4),
+                ].forEach((text, index) => {
+                    const cell = row.insertCell();
+                    cell.textContent = text;
+                    if (index === 1) {
+                        cell.className = 'verdict ' + component.verdict;
+                    }
+                });
+                if (component.pValue === undefined && component.verdict === 'unchanged') {
+                    row.title = 'Too few renders in one of the sessions to test';
+                }
+            });
+
+            container.innerHTML = '';
+            container.appendChild(table);
+        }
+
         function updateSelectedCount() {
             const countEl = document.getElementById('selectedCount');
             if (countEl) {
@@ -1309,10 +3064,16 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
             }
         }
 
-        function updateLogsCount() {
+        function updateLogsCount(visibleCount) {
             const countEl = document.getElementById('logsCount');
             if (countEl) {
-                countEl.textContent = '(' + logs.length + ' logs)';
+                let text = visibleCount === logs.length
+                    ? logs.length + ' logs'
+                    : visibleCount + ' of ' + logs.length + ' logs';
+                if (visibleCount > MAX_RENDERED_LOGS) {
+                    text += ', latest ' + MAX_RENDERED_LOGS + ' shown';
+                }
+                countEl.textContent = '(' + text + ')';
             }
         }
 
@@ -1324,13 +3085,84 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
             }
 
             treeData = tree;
+            treeCosts = computeTreeCosts(tree);
             container.innerHTML = '';
-            tree.forEach(node => {
+            sortTreeNodes(tree).forEach(node => {
                 container.appendChild(createTreeNode(node, 0));
             });
             updateSelectedCount();
         }
 
+        // Render stats per tree node from the session statistics. Logs carry the
+        // "path::Name" id or just the name passed to withProfiler, so components
+        // match either. Files and folders add up their children; percentiles
+        // can't be added, so they show the highest p95 among them
+        function computeTreeCosts(tree) {
+            const costs = new Map();
+            if (!sessionStats) {
+                return costs;
+            }
+            const byId = new Map(sessionStats.components.map(component => [component.id, component]));
+
+            function visit(node) {
+                const children = node.children || [];
+                let cost = null;
+                if (children.length === 0) {
+                    const name = node.path.split('::')[1];
+                    const stats = byId.get(node.path) || (name ? byId.get(name) : undefined);
+                    if (stats) {
+                        cost = {
+                            renders: stats.durations.count,
+                            total: stats.durations.total,
+                            p95: stats.durations.p95,
+                            share: stats.timeShare,
+                        };
+                    }
+                }
+                children.forEach(child => {
+                    const childCost = visit(child);
+                    if (childCost) {
+                        cost = cost || { renders: 0, total: 0, p95: 0, share: 0, aggregated: true };
+                        cost.renders += childCost.renders;
+                        cost.total += childCost.total;
+                        cost.p95 = Math.max(cost.p95, childCost.p95);
+                        cost.share += childCost.share;
+                    }
+                });
+                if (cost) {
+                    costs.set(node.path, cost);
+                }
+                return cost;
+            }
+            tree.forEach(visit);
+            return costs;
+        }
+
+        function sortTreeNodes(nodes) {
+            if (treeSort !== 'cost') {
+                return nodes;
+            }
+            const total = node => (treeCosts.get(node.path) || { total: -1 }).total;
+            return nodes.slice().sort((a, b) => total(b) - total(a) || a.name.localeCompare(b.name));
+        }
+
+        // "renders · total · p95" badge, colored by the node's share of render time
+        function createTreeStatsBadge(cost) {
+            const badge = document.createElement('span');
+            let heat = 'heat-mild';
+            if (cost.share >= 0.2) {
+                heat = 'heat-hot';
+            } else if (cost.share >= 0.05) {
+                heat = 'heat-warm';
+            }
+            badge.className = 'tree-stats ' + heat;
+            badge.textContent = cost.renders + ' · ' + formatMs(cost.total) + 'ms · p95 ' + formatMs(cost.p95) + 'ms';
+            badge.title = cost.renders + ' renders, ' + formatMs(cost.total) + 'ms total (' +
+                (cost.share * 100).toFixed(1) + '% of render time), ' +
+                (cost.aggregated ? 'highest p95 ' : 'p95 ') + formatMs(cost.p95) + 'ms';
+            return badge;
+        }
+
         function createTreeNode(node, depth) {
             const hasChildren = node.children && node.children.length > 0;
             const isExpanded = expandedNodes.has(node.path);
@@ -1372,6 +3204,11 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
                 toggleSelection(node.path);
             };
 
+            const cost = treeCosts.get(node.path);
+            if (cost) {
+                label.appendChild(createTreeStatsBadge(cost));
+            }
+
             // Selection count badge (if subtree has selections)
             if (hasChildren && subtreeSelectionCount > 0) {
                 const countBadge = document.createElement('span');
@@ -1421,7 +3258,7 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
             if (hasChildren) {
                 const childrenDiv = document.createElement('div');
                 childrenDiv.className = 'tree-children' + (isExpanded ? '' : ' collapsed');
-                node.children.forEach(child => {
+                sortTreeNodes(node.children).forEach(child => {
                     childrenDiv.appendChild(createTreeNode(child, depth + 1));
                 });
                 div.appendChild(childrenDiv);
@@ -1502,93 +3339,704 @@ export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
             });
         }
 
-        function renderLogs(logs) {
+        function filterByClient(list) {
+            return selectedClientId
+                ? list.filter(log => log.clientId === selectedClientId)
+                : list;
+        }
+
+        // Logs for the list, exports and analysis: the picked device, within the timeline selection
+        function filterVisible(list) {
+            const byClient = filterByClient(list);
+            if (!timeRange) {
+                return byClient;
+            }
+            return byClient.filter(log => {
+                const time = Date.parse(log.timestamp);
+                return time >= timeRange.start && time <= timeRange.end;
+            });
+        }
+
+        // Log fields come from apps and imported profile files, so escape them for innerHTML
+        function escapeHtml(value) {
+            return String(value)
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;')
+                .replace(/'/g, '&#39;');
+        }
+
+        function renderLogEntry(log) {
+            const time = new Date(log.timestamp).toLocaleTimeString();
+            return \`<div class="log-entry\${overBudget.has(log.id) ? ' over-budget' : ''}">
+                <div class="log-entry-info">
+                    <span class="log-entry-component">\${escapeHtml(log.id)}</span>
+                    <div class="log-entry-details">
+                        \${escapeHtml(log.phase)} • \${time} • \${escapeHtml(log.deviceInfo ? log.deviceInfo.os : 'unknown')}
+                    </div>
+                </div>
+                <span class="log-entry-duration">\${log.actualDuration.toFixed(2)}ms</span>
+            </div>\`;
+        }
+
+        // Full re-render, newest first; only the latest MAX_RENDERED_LOGS get DOM nodes
+        function renderLogs(allLogs) {
             const container = document.getElementById('logDisplay');
-            updateLogsCount();
+            const logs = filterVisible(allLogs);
+            scheduleTimeline();
+            visibleLogCount = logs.length;
+            updateLogsCount(visibleLogCount);
             
             if (logs.length === 0) {
                 container.innerHTML = '<div class="empty-state">No logs yet.</div>';
                 return;
             }
 
-            container.innerHTML = logs.slice().reverse().map(log => {
-                const time = new Date(log.timestamp).toLocaleTimeString();
-                return \`<div class="log-entry">
-                    <div class="log-entry-info">
-                        <span class="log-entry-component">\${log.id}</span>
-                        <div class="log-entry-details">
-                            \${log.phase} • \${time}
-                        </div>
-                    </div>
-                    <span class="log-entry-duration">\${log.actualDuration.toFixed(2)}ms</span>
-                </div>\`;
-            }).join('');
+            container.innerHTML = logs.slice(-MAX_RENDERED_LOGS).reverse().map(renderLogEntry).join('');
             
             container.scrollTop = 0;
         }
 
-        // REMOVED: formatLogsForExport function
-        /*
-        function formatLogsForExport(logs) {
-            if (logs.length === 0) {
-                return 'No profiling logs available.';
+        // Incremental update for a delta: prepends new entries and trims the oldest
+        function appendLogs(newLogs) {
+            newLogs.forEach(log => logs.push(log));
+
+            // Mirror the extension's in-memory limit so the webview can't outgrow it
+            const capacity = session && session.storeStats ? session.storeStats.capacity : 0;
+            if (capacity && logs.length > capacity) {
+                const evicted = logs.splice(0, logs.length - capacity);
+                visibleLogCount -= filterVisible(evicted).length;
             }
 
-            const header = 'React Native Profiler Logs\n' +
-                'Generated: ' + new Date().toISOString() + '\n' +
-                'Total Logs: ' + logs.length + '\n' +
-                '='.repeat(80) + '\n\n';
+            scheduleTimeline();
+            const visible = filterVisible(newLogs);
+            visibleLogCount += visible.length;
+            updateLogsCount(visibleLogCount);
+            if (visible.length === 0) {
+                return;
+            }
 
-            const logEntries = logs.map((log, index) => {
-                const timestamp = new Date(log.timestamp).toISOString();
-                return \`Log #\${index + 1}
-Component: \${log.id}
-Phase: \${log.phase}
-Actual Duration: \${log.actualDuration.toFixed(2)}ms
-Base Duration: \${log.baseDuration.toFixed(2)}ms
-Start Time: \${log.startTime.toFixed(2)}ms
-Commit Time: \${log.commitTime.toFixed(2)}ms
-Timestamp: \${timestamp}
-Device OS: \${log.deviceInfo?.os || 'unknown'}
-Device Version: \${log.deviceInfo?.version || 'unknown'}
-\${log.deviceInfo?.model ? 'Device Model: ' + log.deviceInfo.model + '\\n' : ''}\${log.interactions && log.interactions.length > 0 ? 'Interactions: ' + log.interactions.join(', ') + '\\n' : ''}\${'-'.repeat(80)}\`;
-            }).join('\n\n');
+            const container = document.getElementById('logDisplay');
+            if (!container.querySelector('.log-entry')) {
+                container.innerHTML = '';
+            }
+            container.insertAdjacentHTML('afterbegin',
+                visible.slice(-MAX_RENDERED_LOGS).reverse().map(renderLogEntry).join(''));
+            while (container.children.length > MAX_RENDERED_LOGS) {
+                container.removeChild(container.lastChild);
+            }
+        }
 
-            return header + logEntries;
+        const SVG_NS = 'http://www.w3.org/2000/svg';
+        const TIMELINE_HEIGHT = 180;
+        const TIMELINE_MARGIN = { top: 8, right: 8, bottom: 18, left: 40 };
+        const TIMELINE_COLORS = ['--vscode-charts-blue', '--vscode-charts-orange', '--vscode-charts-green',
+            '--vscode-charts-purple', '--vscode-charts-red', '--vscode-charts-yellow'];
+        const TIMELINE_DEFAULT_COMPONENTS = 3;
+
+        function svgElement(tag, attributes) {
+            const element = document.createElementNS(SVG_NS, tag);
+            Object.keys(attributes || {}).forEach(name => element.setAttribute(name, attributes[name]));
+            return element;
         }
 
-        function copyLogsToClipboard() {
-            if (logs.length === 0) {
-                alert('No logs to copy');
+        // Coalesces redraws (a delta arrives every 250ms while recording)
+        function scheduleTimeline() {
+            if (timelineScheduled) {
                 return;
             }
+            timelineScheduled = true;
+            requestAnimationFrame(() => {
+                timelineScheduled = false;
+                renderTimeline();
+            });
+        }
 
-            const formatted = formatLogsForExport(logs);
-            
-            // Use VS Code's clipboard API
-            vscode.postMessage({
-                type: 'copyToClipboard',
-                text: formatted
+        function resetTimeline() {
+            timeRange = null;
+            timelineZoom = null;
+            timelineComponents = null;
+            updateTimelineSelection();
+        }
+
+        // Lists the components in the logs, keeping the current choice;
+        // until the user picks, plots the ones with the most render time
+        function updateTimelineOptions(source) {
+            const totals = new Map();
+            source.forEach(log => totals.set(log.id, (totals.get(log.id) || 0) + log.actualDuration));
+            const ids = Array.from(totals.keys()).sort();
+            if (!timelineComponents) {
+                timelineComponents = Array.from(totals.entries())
+                    .sort((a, b) => b[1] - a[1])
+                    .slice(0, TIMELINE_DEFAULT_COMPONENTS)
+                    .map(entry => entry[0]);
+            }
+
+            const select = document.getElementById('timelineComponents');
+            const current = Array.from(select.options).map(option => option.value);
+            if (current.join('\\n') !== ids.join('\\n')) {
+                select.innerHTML = '';
+                ids.forEach(id => {
+                    const option = document.createElement('option');
+                    option.value = id;
+                    option.textContent = id;
+                    select.appendChild(option);
+                });
+            }
+            Array.from(select.options).forEach(option => {
+                option.selected = timelineComponents.includes(option.value);
             });
         }
 
-        function saveLogsToFile() {
-            if (logs.length === 0) {
-                alert('No logs to save');
+        // Plots actualDuration over session time for the picked components,
+        // with guide lines at one frame at 60 Hz and 120 Hz. Keeps only the
+        // slowest render per pixel column so long sessions stay cheap to draw
+        function renderTimeline() {
+            const svg = document.getElementById('timelineChart');
+            const legend = document.getElementById('timelineLegend');
+            if (!svg || collapsedSections.has('timeline')) {
                 return;
             }
 
-            const formatted = formatLogsForExport(logs);
-            
-            // Send message to extension to save file
+            const source = filterByClient(logs);
+            updateTimelineOptions(source);
+            const width = svg.clientWidth || 600;
+            svg.setAttribute('viewBox', '0 0 ' + width + ' ' + TIMELINE_HEIGHT);
+            svg.innerHTML = '';
+            legend.innerHTML = '';
+            document.getElementById('timelineCount').textContent = '';
+            if (source.length === 0) {
+                return;
+            }
+
+            // Loops rather than Math.min(...times): a spread of every log can overflow the stack
+            const times = source.map(log => Date.parse(log.timestamp));
+            let origin = session ? Date.parse(session.startTime) : Infinity;
+            let latest = -Infinity;
+            times.forEach(time => {
+                origin = Math.min(origin, time);
+                latest = Math.max(latest, time);
+            });
+            const start = timelineZoom ? timelineZoom.start : origin;
+            const end = Math.max(start + 1000, timelineZoom ? timelineZoom.end : latest);
+            const plotLeft = TIMELINE_MARGIN.left;
+            const plotRight = width - TIMELINE_MARGIN.right;
+            const plotBottom = TIMELINE_HEIGHT - TIMELINE_MARGIN.bottom;
+            const toX = time => plotLeft + ((time - start) / (end - start)) * (plotRight - plotLeft);
+
+            const picked = new Set(timelineComponents);
+            const series = new Map();
+            source.forEach((log, index) => {
+                const time = times[index];
+                if (!picked.has(log.id) || time < start || time > end) {
+                    return;
+                }
+                if (!series.has(log.id)) {
+                    series.set(log.id, new Map());
+                }
+                const columns = series.get(log.id);
+                const column = Math.round(toX(time));
+                const kept = columns.get(column);
+                if (!kept || log.actualDuration > kept.log.actualDuration) {
+                    columns.set(column, { time, log });
+                }
+            });
+
+            let highest = FRAME_BUDGET_MS * 1.2;
+            series.forEach(columns => columns.forEach(point => {
+                highest = Math.max(highest, point.log.actualDuration * 1.1);
+            }));
+            const toY = duration => plotBottom - (duration / highest) * (plotBottom - TIMELINE_MARGIN.top);
+
+            // Axes, with seconds since the session started along the bottom
+            svg.appendChild(svgElement('line', { class: 'timeline-axis', x1: plotLeft, y1: plotBottom, x2: plotRight, y2: plotBottom }));
+            svg.appendChild(svgElement('line', { class: 'timeline-axis', x1: plotLeft, y1: TIMELINE_MARGIN.top, x2: plotLeft, y2: plotBottom }));
+            [start, (start + end) / 2, end].forEach((time, index) => {
+                const label = svgElement('text', {
+                    x: toX(time),
+                    y: TIMELINE_HEIGHT - 4,
+                    'text-anchor': ['start', 'middle', 'end'][index],
+                });
+                label.textContent = ((time - origin) / 1000).toFixed(1) + 's';
+                svg.appendChild(label);
+            });
+            [0, highest].forEach(duration => {
+                const label = svgElement('text', { x: plotLeft - 4, y: toY(duration) + 3, 'text-anchor': 'end' });
+                label.textContent = duration.toFixed(0) + 'ms';
+                svg.appendChild(label);
+            });
+
+            [[FRAME_BUDGET_MS, '60 Hz', ''], [FRAME_BUDGET_MS / 2, '120 Hz', ' half-frame']].forEach(([duration, name, extra]) => {
+                const y = toY(duration);
+                svg.appendChild(svgElement('line', { class: 'timeline-guide' + extra, x1: plotLeft, y1: y, x2: plotRight, y2: y }));
+                const label = svgElement('text', { x: plotRight - 2, y: y - 2, 'text-anchor': 'end' });
+                label.textContent = duration.toFixed(1) + 'ms (' + name + ')';
+                svg.appendChild(label);
+            });
+
+            let plotted = 0;
+            timelineComponents.forEach((id, index) => {
+                const color = 'var(' + TIMELINE_COLORS[index % TIMELINE_COLORS.length] + ')';
+                const points = Array.from((series.get(id) || new Map()).values()).sort((a, b) => a.time - b.time);
+                plotted += points.length;
+
+                const line = svgElement('polyline', {
+                    fill: 'none',
+                    'stroke-width': 1,
+                    'stroke-opacity': 0.5,
+                    points: points.map(point => toX(point.time) + ',' + toY(point.log.actualDuration)).join(' '),
+                });
+                line.style.stroke = color;
+                svg.appendChild(line);
+                points.forEach(point => {
+                    const dot = svgElement('circle', { cx: toX(point.time), cy: toY(point.log.actualDuration), r: 2.5 });
+                    dot.style.fill = color;
+                    const title = svgElement('title');
+                    title.textContent = id + '\\n' + point.log.phase + ' ' + formatMs(point.log.actualDuration) + 'ms at ' +
+                        ((point.time - origin) / 1000).toFixed(2) + 's';
+                    dot.appendChild(title);
+                    svg.appendChild(dot);
+                });
+
+                const entry = document.createElement('span');
+                const swatch = document.createElement('span');
+                swatch.className = 'timeline-swatch';
+                swatch.style.backgroundColor = color;
+                entry.appendChild(swatch);
+                entry.appendChild(document.createTextNode(id.split('::').pop()));
+                entry.title = id;
+                legend.appendChild(entry);
+            });
+            document.getElementById('timelineCount').textContent = '(' + plotted + ' points)';
+
+            if (timeRange && timeRange.end >= start && timeRange.start <= end) {
+                const left = toX(Math.max(start, timeRange.start));
+                svg.appendChild(svgElement('rect', {
+                    class: 'timeline-brush',
+                    x: left,
+                    y: TIMELINE_MARGIN.top,
+                    width: Math.max(1, toX(Math.min(end, timeRange.end)) - left),
+                    height: plotBottom - TIMELINE_MARGIN.top,
+                }));
+            }
+
+            // Lets the brush handlers map pixels back to time
+            svg.dataset.start = start;
+            svg.dataset.end = end;
+            svg.dataset.origin = origin;
+        }
+
+        // Dragging across the chart selects a time range; a plain click clears it
+        function setupTimeline() {
+            const svg = document.getElementById('timelineChart');
+            const select = document.getElementById('timelineComponents');
+            if (!svg || !select) {
+                return;
+            }
+
+            select.addEventListener('change', () => {
+                timelineComponents = Array.from(select.selectedOptions).map(option => option.value);
+                scheduleTimeline();
+            });
+
+            const toTime = clientX => {
+                const bounds = svg.getBoundingClientRect();
+                const width = svg.clientWidth || bounds.width;
+                const x = Math.min(width - TIMELINE_MARGIN.right, Math.max(TIMELINE_MARGIN.left, clientX - bounds.left));
+                const start = Number(svg.dataset.start);
+                const end = Number(svg.dataset.end);
+                return start + ((x - TIMELINE_MARGIN.left) / (width - TIMELINE_MARGIN.left - TIMELINE_MARGIN.right)) * (end - start);
+            };
+
+            let dragFrom = null;
+            svg.addEventListener('mousedown', event => {
+                if (!svg.dataset.start) {
+                    return;
+                }
+                dragFrom = { x: event.clientX, time: toTime(event.clientX) };
+                event.preventDefault();
+            });
+            window.addEventListener('mousemove', event => {
+                if (!dragFrom || Math.abs(event.clientX - dragFrom.x) < 3) {
+                    return;
+                }
+                const time = toTime(event.clientX);
+                timeRange = { start: Math.min(dragFrom.time, time), end: Math.max(dragFrom.time, time) };
+                scheduleTimeline();
+            });
+            window.addEventListener('mouseup', event => {
+                if (!dragFrom) {
+                    return;
+                }
+                if (Math.abs(event.clientX - dragFrom.x) < 3) {
+                    timeRange = null;
+                }
+                dragFrom = null;
+                updateTimelineSelection();
+                renderLogs(logs);
+            });
+
+            document.getElementById('zoomTimelineBtn').addEventListener('click', () => {
+                if (timeRange) {
+                    timelineZoom = { start: timeRange.start, end: timeRange.end };
+                    updateTimelineSelection();
+                    scheduleTimeline();
+                }
+            });
+            document.getElementById('resetTimelineBtn').addEventListener('click', () => {
+                resetTimeline();
+                timelineComponents = Array.from(select.selectedOptions).map(option => option.value);
+                renderLogs(logs);
+            });
+        }
+
+        function updateTimelineSelection() {
+            const label = document.getElementById('timelineSelection');
+            document.getElementById('zoomTimelineBtn').disabled = !timeRange;
+            document.getElementById('resetTimelineBtn').disabled = !timeRange && !timelineZoom;
+            if (!timeRange) {
+                label.textContent = 'Drag across the chart to select a time range; the log list, exports and analysis then only use logs from that range.';
+                return;
+            }
+            const origin = Number(document.getElementById('timelineChart').dataset.origin) || timeRange.start;
+            label.textContent = 'Selected ' + ((timeRange.start - origin) / 1000).toFixed(2) + 's – ' +
+                ((timeRange.end - origin) / 1000).toFixed(2) + 's: ' + filterVisible(logs).length +
+                ' logs. The log list, exports and analysis use this range; click the chart to clear it.';
+        }
+
+        const formatMs = value => value === undefined || value === null ? '–' : value.toFixed(2);
+        const formatRate = value => value === undefined || value === null ? '–' : value.toFixed(1);
+        // Columns of the statistics table; value() is also the sort key
+        const STATS_COLUMNS = [
+            { label: 'Component', value: c => c.id },
+            { label: 'Renders', value: c => c.durations.count, format: String },
+            { label: 'Mounts', value: c => c.phases.mount ? c.phases.mount.count : 0, format: String },
+            { label: 'Renders/s', value: c => c.rendersPerSecond, format: formatRate },
+            { label: 'Share', value: c => c.timeShare, format: v => (v * 100).toFixed(1) + '%' },
+            { label: 'Total (ms)', value: c => c.durations.total, format: formatMs },
+            { label: 'Mean (ms)', value: c => c.durations.mean, format: formatMs },
+            { label: 'p50 (ms)', value: c => c.durations.p50, format: formatMs, frame: true },
+            { label: 'p95 (ms)', value: c => c.durations.p95, format: formatMs, frame: true },
+            { label: 'p99 (ms)', value: c => c.durations.p99, format: formatMs, frame: true },
+            { label: 'Max (ms)', value: c => c.durations.max, format: formatMs, frame: true },
+        ];
+        const FRAME_BUDGET_MS = 1000 / 60;
+
+        // Session summary plus a sortable row per component; null clears the table
+        function renderStats(stats) {
+            sessionStats = stats;
+            if (treeData.length > 0) {
+                renderTree(treeData);
+            }
+            const summary = document.getElementById('statsSummary');
+            const container = document.getElementById('statsTable');
+            const count = document.getElementById('statsCount');
+            container.innerHTML = '';
+            renderComponentDetail();
+            if (!stats || !stats.durations) {
+                summary.textContent = stats ? 'No renders recorded.' : 'Open or record a session to see per-component statistics.';
+                count.textContent = '';
+                return;
+            }
+
+            const durations = stats.durations;
+            const phases = Object.keys(stats.phases)
+                .map(phase => phase + ' ' + stats.phases[phase].count)
+                .join(', ');
+            count.textContent = '(' + stats.components.length + ' components)';
+            summary.textContent = stats.renderCount + ' renders over ' + (stats.spanMs / 1000).toFixed(1) + 's (' +
+                formatRate(stats.rendersPerSecond) + '/s; ' + phases + ') • p50 ' + formatMs(durations.p50) +
+                'ms • p95 ' + formatMs(durations.p95) + 'ms • p99 ' + formatMs(durations.p99) +
+                'ms • max ' + formatMs(durations.max) + 'ms';
+
+            const column = STATS_COLUMNS[statsSort.column];
+            const components = stats.components.slice().sort((a, b) => {
+                const x = column.value(a);
+                const y = column.value(b);
+                const order = typeof x === 'string' ? x.localeCompare(y) : (x === undefined ? -1 : x) - (y === undefined ? -1 : y);
+                return statsSort.descending ? -order : order;
+            });
+
+            const table = document.createElement('table');
+            table.className = 'stats-table';
+            const header = table.insertRow();
+            STATS_COLUMNS.forEach((col, index) => {
+                const th = document.createElement('th');
+                th.textContent = col.label + (index === statsSort.column ? (statsSort.descending ? ' ▼' : ' ▲') : '');
+                th.className = 'sortable' + (index === statsSort.column ? ' sorted' : '');
+                th.addEventListener('click', () => {
+                    statsSort = index === statsSort.column
+                        ? { column: index, descending: !statsSort.descending }
+                        : { column: index, descending: index !== 0 };
+                    renderStats(sessionStats);
+                });
+                header.appendChild(th);
+            });
+            const histogramHeader = document.createElement('th');
+            histogramHeader.textContent = 'Distribution';
+            header.appendChild(histogramHeader);
+
+            components.forEach(component => {
+                const row = table.insertRow();
+                if (component.id === selectedStatsId) {
+                    row.className = 'selected';
+                }
+                row.addEventListener('click', () => selectStatsComponent(component.id));
+                STATS_COLUMNS.forEach(col => {
+                    const cell = row.insertCell();
+                    const value = col.value(component);
+                    cell.textContent = col.format ? col.format(value) : value;
+                    if (col.frame && value > FRAME_BUDGET_MS) {
+                        cell.className = 'over-frame';
+                        cell.title = 'Longer than one frame at 60 Hz (' + FRAME_BUDGET_MS.toFixed(1) + 'ms)';
+                    }
+                });
+                row.insertCell().appendChild(renderHistogram(component.histogram));
+            });
+
+            container.appendChild(table);
+        }
+
+        // Clicking the selected component again closes its details
+        function selectStatsComponent(id) {
+            selectedStatsId = selectedStatsId === id ? null : id;
+            renderStats(sessionStats);
+        }
+
+        // Details of the selected component: durations per phase and the
+        // full histogram. Components that didn't render in the session get a note
+        function renderComponentDetail() {
+            const detail = document.getElementById('componentDetail');
+            detail.innerHTML = '';
+            if (selectedStatsId === null) {
+                detail.style.display = 'none';
+                return;
+            }
+            detail.style.display = 'block';
+
+            const title = document.createElement('div');
+            title.className = 'component-detail-title';
+            const name = document.createElement('span');
+            name.textContent = selectedStatsId;
+            const close = document.createElement('button');
+            close.textContent = '✕';
+            close.title = 'Close';
+            close.addEventListener('click', () => selectStatsComponent(selectedStatsId));
+            title.appendChild(name);
+            title.appendChild(close);
+            detail.appendChild(title);
+
+            const component = sessionStats && sessionStats.components.find(c => c.id === selectedStatsId);
+            if (!component) {
+                const note = document.createElement('div');
+                note.textContent = sessionStats ? 'Not rendered in this session.' : 'Open or record a session to see its statistics.';
+                detail.appendChild(note);
+                return;
+            }
+
+            const durations = component.durations;
+            const lines = [
+                durations.count + ' renders (' + formatRate(component.rendersPerSecond) + '/s) • ' +
+                    (component.timeShare * 100).toFixed(1) + '% of render time • total ' + formatMs(durations.total) + 'ms',
+                'mean ' + formatMs(durations.mean) + 'ms • p50 ' + formatMs(durations.p50) + 'ms • p95 ' +
+                    formatMs(durations.p95) + 'ms • p99 ' + formatMs(durations.p99) + 'ms • max ' + formatMs(durations.max) + 'ms',
+            ];
+            Object.keys(component.phases).forEach(phase => {
+                const summary = component.phases[phase];
+                lines.push(phase + ': ' + summary.count + ' renders, mean ' + formatMs(summary.mean) + 'ms, p95 ' +
+                    formatMs(summary.p95) + 'ms, max ' + formatMs(summary.max) + 'ms');
+            });
+            lines.forEach(text => {
+                const line = document.createElement('div');
+                line.textContent = text;
+                detail.appendChild(line);
+            });
+            detail.appendChild(renderHistogram(component.histogram));
+        }
+
+        // Tiny bar chart of a duration histogram; buckets past one frame are highlighted
+        function renderHistogram(buckets) {
+            const chart = document.createElement('span');
+            chart.className = 'histogram';
+            const highest = Math.max(1, ...buckets.map(bucket => bucket.count));
+            chart.title = buckets
+                .map(bucket => (bucket.max === undefined ? '≥' + bucket.min : bucket.min + '–' + bucket.max) + 'ms: ' + bucket.count)
+                .join('\\n');
+            buckets.forEach(bucket => {
+                const bar = document.createElement('span');
+                bar.style.height = Math.round((bucket.count / highest) * 100) + '%';
+                if (bucket.min >= FRAME_BUDGET_MS) {
+                    bar.className = 'over-frame';
+                }
+                chart.appendChild(bar);
+            });
+            return chart;
+        }
+
+        // Commit selector: one bar per commit, as tall as its render phase.
+        // Keeps the selected commit across updates, or follows the newest one
+        function renderCommits(newCommits) {
+            const previous = commits[selectedCommit];
+            const followLatest = !previous || selectedCommit === commits.length - 1;
+            commits = newCommits;
+            const chart = document.getElementById('commitChart');
+            document.getElementById('commitsCount').textContent = commits.length ? '(' + commits.length + ' commits)' : '';
+            chart.innerHTML = '';
+
+            const longest = Math.max(FRAME_BUDGET_MS, ...commits.map(commit => commit.duration));
+            commits.forEach((commit, index) => {
+                const bar = document.createElement('div');
+                bar.className = 'commit-bar' + commitClass(commit.duration);
+                bar.style.height = Math.max(3, Math.round((commit.duration / longest) * 100)) + '%';
+                bar.title = 'Commit ' + (index + 1) + ': ' + formatMs(commit.duration) + 'ms, ' +
+                    commit.renders.length + ' component(s)';
+                bar.addEventListener('click', () => selectCommit(index));
+                chart.appendChild(bar);
+            });
+
+            let index = commits.length - 1;
+            if (previous && !followLatest) {
+                const kept = commits.findIndex(commit =>
+                    commit.clientId === previous.clientId && commit.commitTime === previous.commitTime);
+                if (kept !== -1) {
+                    index = kept;
+                }
+            }
+            selectCommit(index);
+        }
+
+        function commitClass(duration) {
+            if (duration > FRAME_BUDGET_MS) {
+                return ' over-frame';
+            }
+            return duration > FRAME_BUDGET_MS / 2 ? ' half-frame' : '';
+        }
+
+        // Shows the ranked chart of one commit: a bar per rendered component,
+        // longest first, scaled to the commit's render phase. Logs carry no
+        // parent/child relations (and every render of a commit reports the
+        // same startTime), so there is no flame chart to draw
+        function selectCommit(index) {
+            const label = document.getElementById('commitLabel');
+            const ranked = document.getElementById('rankedChart');
+            const chart = document.getElementById('commitChart');
+            ranked.innerHTML = '';
+            if (commits.length === 0) {
+                selectedCommit = -1;
+                label.textContent = 'Open or record a session to browse its commits.';
+                document.getElementById('prevCommitBtn').disabled = true;
+                document.getElementById('nextCommitBtn').disabled = true;
+                return;
+            }
+
+            selectedCommit = Math.max(0, Math.min(commits.length - 1, index));
+            const commit = commits[selectedCommit];
+            document.getElementById('prevCommitBtn').disabled = selectedCommit === 0;
+            document.getElementById('nextCommitBtn').disabled = selectedCommit === commits.length - 1;
+            Array.from(chart.children).forEach((bar, barIndex) => {
+                bar.classList.toggle('selected', barIndex === selectedCommit);
+            });
+            const selectedBar = chart.children[selectedCommit];
+            if (selectedBar) {
+                selectedBar.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+            }
+
+            label.textContent = 'Commit ' + (selectedCommit + 1) + ' of ' + commits.length + ' • ' +
+                new Date(commit.timestamp).toLocaleTimeString() + ' • ' + formatMs(commit.duration) + 'ms • ' +
+                commit.renders.length + ' component(s)';
+
+            const scale = Math.max(commit.duration, FRAME_BUDGET_MS);
+            commit.renders.forEach(render => {
+                const row = document.createElement('div');
+                row.className = 'ranked-row';
+                row.title = render.id + '\\n' + render.phase + ': actual ' + formatMs(render.actualDuration) +
+                    'ms, base ' + formatMs(render.baseDuration) + 'ms';
+                const bar = document.createElement('div');
+                bar.className = 'ranked-bar commit-bar' + commitClass(render.actualDuration);
+                bar.style.width = ((render.actualDuration / scale) * 100) + '%';
+                const text = document.createElement('span');
+                text.className = 'ranked-label';
+                text.textContent = render.id.split('::').pop() + ' (' + render.phase + ') ' + formatMs(render.actualDuration) + 'ms';
+                row.appendChild(bar);
+                row.appendChild(text);
+                if (render.id.includes('::')) {
+                    row.addEventListener('click', () => openFile(render.id.split('::')[0]));
+                }
+                ranked.appendChild(row);
+            });
+        }
+
+        // Shows pass/fail per budget check, failures first; null clears the report
+        function renderBudgetReport(result) {
+            const status = document.getElementById('budgetStatus');
+            const list = document.getElementById('budgetChecks');
+            const count = document.getElementById('budgetsCount');
+            const report = result && result.report;
+            overBudget = new Set();
+            list.innerHTML = '';
+            count.textContent = '';
+            status.className = 'budget-status';
+
+            if (!result) {
+                status.textContent = 'Open or record a session to check it against .rn-profiler/budgets.json.';
+                return;
+            }
+            if (!report) {
+                status.textContent = result.error
+                    ? 'Could not read budgets: ' + result.error
+                    : 'No budgets file. Add ' + result.file + ' to check sessions against limits.';
+                return;
+            }
+
+            const order = { failed: 0, skipped: 1, passed: 2 };
+            const checks = report.checks
+                .map((check, index) => ({ check, description: result.descriptions[index] }))
+                .sort((a, b) => order[a.check.status] - order[b.check.status]);
+            checks.forEach(({ check, description }) => {
+                if (check.status === 'failed') {
+                    overBudget.add(check.component);
+                }
+                const item = document.createElement('div');
+                item.className = 'budget-check ' + check.status;
+                item.textContent = (check.status === 'failed' ? '✗ ' : check.status === 'passed' ? '✓ ' : '– ') + description;
+                item.title = 'Budget: ' + check.pattern + ' in ' + result.file;
+                list.appendChild(item);
+            });
+
+            count.textContent = '(' + report.failures + ' of ' + report.checks.length + ' failed)';
+            status.classList.add(report.passed ? 'passed' : 'failed');
+            status.textContent = report.checks.length === 0
+                ? 'No budgets apply to the components in this session.'
+                : report.passed
+                    ? 'All ' + report.checks.length + ' budget checks passed'
+                    : report.failures + ' budget check(s) failed';
+
+            // Surface violations even if the section was collapsed
+            if (!report.passed) {
+                collapsedSections.delete('budgets');
+                updateSectionStates();
+            }
+        }
+
+        function copyLogsToClipboard() {
+            vscode.postMessage({
+                type: 'copyToClipboard',
+                format: document.getElementById('exportFormat').value,
+                clientId: selectedClientId,
+                range: timeRange
+            });
+        }
+
+        function saveLogsToFile() {
             vscode.postMessage({
                 type: 'saveLogsToFile',
-                content: formatted,
-                defaultFilename: 'profiler-logs-' + new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5) + '.txt'
+                format: document.getElementById('exportFormat').value,
+                clientId: selectedClientId,
+                range: timeRange
             });
         }
 
-        */
         function renderAnalysis(analysis) {
             const container = document.getElementById('analysisOutput');
             // Simple markdown-like rendering
@@ -1617,12 +4065,6 @@ Device Version: \${log.deviceInfo?.version || 'unknown'}
             vscode.postMessage({ type: 'openFile', path: path });
         }
 
-        // Poll for logs while recording
-        setInterval(() => {
-            if (isRecording) {
-                vscode.postMessage({ type: 'requestLogs' });
-            }
-        }, 1000);
         } catch (error) {
             console.error('[Webview] Fatal error in script initialization:', error);
             // Try to send ready even if there's an error, in case it's a non-critical error
@@ -1640,6 +4082,8 @@ Device Version: \${log.deviceInfo?.version || 'unknown'}
   }
 
   private dispose() {
+    this.setServer(undefined);
+
     // Clean up our resources
     while (this.disposables.length) {
       const x = this.disposables.pop();
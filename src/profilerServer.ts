@@ -1,17 +1,95 @@
 import express from "express";
-import { ProfileLog } from "./types";
+import * as http from "http";
+import * as crypto from "crypto";
+import { EventEmitter } from "events";
+import { WebSocketServer, WebSocket, RawData } from "ws";
+import {
+  ProfileLog,
+  BatchItemResult,
+  ControlCommand,
+  ControlClientMessage,
+  ControlClientInfo,
+  SessionInfo,
+  FieldError,
+} from "./types";
+import {
+  PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  DISCOVERY_SERVICE,
+  ProtocolInfo,
+  DiscoveryInfo,
+} from "./protocol";
+import {
+  ProtocolValidator,
+  negotiateProtocolVersion,
+} from "./protocolValidator";
+import {
+  RecordingSession,
+  RecordingSessionOptions,
+} from "./recordingSession";
+import { RateLimiter } from "./rateLimiter";
+
+// Upper bound on logs accepted in a single batch request
+const MAX_BATCH_SIZE = 1000;
+
+// Largest request body the JSON parser accepts
+const MAX_BODY_SIZE = "5mb";
+
+// Default per-client request budget for the ingestion endpoints
+const DEFAULT_RATE_LIMIT_PER_SECOND = 50;
+
+// Consecutive ports tried, starting at the configured one, when it is taken
+const DEFAULT_PORT_RANGE = 10;
+
+/**
+ * Network and security settings for the profiler server
+ */
+export interface ProfilerServerOptions {
+  host?: string; // Interface to bind (default: loopback only)
+  authToken?: string; // When set, required on ingestion and the control channel
+  rateLimitPerSecond?: number; // Per-client request limit
+  portRange?: number; // Ports to try from the configured one (1 disables fallback)
+  session?: RecordingSessionOptions;
+}
 
 /**
- * Local HTTP server that receives profiling data from React Native app
+ * Local HTTP server that receives profiling data from React Native app.
+ * Also hosts a WebSocket control channel (at /control) that app runtimes
+ * connect to on startup, so recording can be started and stopped live.
+ *
+ * Events: "clientConnected", "clientAcknowledged", "clientDisconnected"
+ * (each with a ControlClientInfo), and "logsReceived" (with the logs accepted
+ * by one request) so consumers can pull deltas instead of polling
  */
-export class ProfilerServer {
+export class ProfilerServer extends EventEmitter {
   private app: express.Application;
-  private server: any;
+  private server: http.Server | undefined;
+  private controlServer: WebSocketServer | undefined;
+  private controlClients = new Map<WebSocket, ControlClientInfo>();
   private port: number;
-  private logs: ProfileLog[] = [];
+  private preferredPort: number;
+  private portRange: number;
+  private host: string;
+  private authToken: string | undefined;
+  private rateLimiter: RateLimiter;
+  private protocol: ProtocolValidator;
+  private pruneTimer: NodeJS.Timeout | undefined;
+  private session: RecordingSession | undefined;
+  private sessionOptions: RecordingSessionOptions;
+  private components: string[] = [];
 
-  constructor(port: number) {
+  constructor(port: number, options: ProfilerServerOptions = {}) {
+    super();
     this.port = port;
+    this.preferredPort = port;
+    this.portRange = Math.max(1, options.portRange || DEFAULT_PORT_RANGE);
+    this.host = options.host || "127.0.0.1";
+    this.authToken = options.authToken;
+    this.rateLimiter = new RateLimiter(
+      options.rateLimitPerSecond || DEFAULT_RATE_LIMIT_PER_SECOND
+    );
+    this.sessionOptions = options.session || {};
+    this.protocol = new ProtocolValidator();
     this.app = express();
     this.setupRoutes();
   }
@@ -21,7 +99,10 @@ export class ProfilerServer {
     this.app.use((req, res, next) => {
       res.header("Access-Control-Allow-Origin", "*");
       res.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-      res.header("Access-Control-Allow-Headers", "Content-Type");
+      res.header(
+        "Access-Control-Allow-Headers",
+        "Content-Type, X-Profiler-Token, X-Profiler-Client"
+      );
       if (req.method === "OPTIONS") {
         res.sendStatus(200);
       } else {
@@ -29,67 +110,84 @@ export class ProfilerServer {
       }
     });
 
-    this.app.use(express.json());
+    // Rate limit and authenticate before parsing request bodies
+    this.app.use(["/profile-data", "/session"], (req, res, next) =>
+      this.guardRequest(req, res, next)
+    );
+
+    this.app.use(express.json({ limit: MAX_BODY_SIZE }));
 
     // Health check endpoint
     this.app.get("/health", (req, res) => {
-      res.json({ status: "ok", logsCount: this.logs.length });
+      res.json({
+        status: "ok",
+        recording: this.isRecording(),
+        sessionId: this.session?.id,
+        logsCount: this.session?.logCount || 0,
+        store: this.session?.getInfo().storeStats,
+        controlClients: this.controlClients.size,
+      });
+    });
+
+    // Protocol negotiation for runtimes: the versions this extension accepts
+    this.app.get("/protocol", (req, res) => {
+      const info: ProtocolInfo = {
+        protocolVersion: PROTOCOL_VERSION,
+        supportedVersions: SUPPORTED_PROTOCOL_VERSIONS,
+      };
+      res.json(info);
+    });
+
+    // Lets runtimes scanning the port range recognise this server
+    this.app.get("/discover", (req, res) => {
+      const info: DiscoveryInfo = {
+        service: DISCOVERY_SERVICE,
+        port: this.port,
+        protocolVersion: PROTOCOL_VERSION,
+        supportedVersions: SUPPORTED_PROTOCOL_VERSIONS,
+        authRequired: this.authToken !== undefined,
+      };
+      res.json(info);
+    });
+
+    // Published JSON Schema for every wire payload
+    this.app.get("/protocol/schema", (req, res) => {
+      res.json(this.protocol.getSchema());
+    });
+
+    // Current session summary, including the devices that have sent logs
+    this.app.get("/session", (req, res) => {
+      res.json({ session: this.getSession() || null });
     });
 
     // Main endpoint for receiving profiling data
     this.app.post("/profile-data", (req, res) => {
       try {
-        const profileLog: ProfileLog = req.body;
-
-        // Validate the log structure
-        if (!profileLog || typeof profileLog !== "object") {
-          res
-            .status(400)
-            .json({ error: "Invalid profile log: must be an object" });
+        if (!this.rejectIfNotRecording(res)) {
           return;
         }
 
-        if (
-          !profileLog.id ||
-          !profileLog.phase ||
-          typeof profileLog.actualDuration !== "number"
-        ) {
-          res
-            .status(400)
-            .json({
-              error: "Invalid profile log format: missing required fields",
-            });
+        const version = this.protocol.resolveVersion(req.body);
+        if (version === null) {
+          this.rejectUnsupportedVersion(res, req.body.protocolVersion);
           return;
         }
 
-        // Validate phase
-        if (!["mount", "update", "force-update"].includes(profileLog.phase)) {
+        const errors = this.protocol.validateLog(req.body, version);
+        if (errors.length > 0) {
           res
             .status(400)
-            .json({
-              error: "Invalid phase: must be mount, update, or force-update",
-            });
+            .json({ error: describeErrors(errors), errors, protocolVersion: version });
           return;
         }
 
-        // Add timestamp if not present
-        if (!profileLog.timestamp) {
-          profileLog.timestamp = new Date().toISOString();
-        }
-
-        // Ensure deviceInfo exists
-        if (!profileLog.deviceInfo) {
-          profileLog.deviceInfo = {
-            os: "unknown",
-            version: "unknown",
-          };
-        }
-
-        this.logs.push(profileLog);
+        const profileLog = this.addLog(req.body, version);
+        this.emit("logsReceived", [profileLog]);
         res.json({
           success: true,
           logId: profileLog.id,
-          totalLogs: this.logs.length,
+          totalLogs: this.session!.logCount,
+          protocolVersion: version,
         });
 
         console.log(
@@ -97,7 +195,9 @@ export class ProfilerServer {
             profileLog.phase
           } (${profileLog.actualDuration.toFixed(2)}ms)`
         );
-        console.log(`[Profiler] Total logs collected: ${this.logs.length}`);
+        console.log(
+          `[Profiler] Total logs collected: ${this.session!.logCount}`
+        );
       } catch (error: any) {
         console.error("[Profiler] Error processing profile log:", error);
         res
@@ -105,46 +205,520 @@ export class ProfilerServer {
           .json({ error: "Internal server error", message: error.message });
       }
     });
+
+    // Batched endpoint: accepts { protocolVersion, logs: [...] } so the
+    // runtime can buffer renders instead of issuing one request per render.
+    // v1 runtimes send a bare array (or { logs } without a version)
+    this.app.post("/profile-data/batch", (req, res) => {
+      try {
+        if (!this.rejectIfNotRecording(res)) {
+          return;
+        }
+
+        const batchVersion = this.protocol.resolveVersion(req.body);
+        if (batchVersion === null) {
+          this.rejectUnsupportedVersion(res, req.body.protocolVersion);
+          return;
+        }
+
+        if (batchVersion > 1) {
+          const errors = this.protocol.validateBatch(req.body);
+          if (errors.length > 0) {
+            res.status(400).json({ error: describeErrors(errors), errors });
+            return;
+          }
+        }
+
+        const batch = Array.isArray(req.body) ? req.body : req.body?.logs;
+
+        if (!Array.isArray(batch)) {
+          res.status(400).json({
+            error: "Invalid batch: body must be an array of profile logs",
+          });
+          return;
+        }
+
+        if (batch.length > MAX_BATCH_SIZE) {
+          res.status(413).json({
+            error: `Batch too large: at most ${MAX_BATCH_SIZE} logs per request`,
+          });
+          return;
+        }
+
+        const acceptedLogs: ProfileLog[] = [];
+        const results: BatchItemResult[] = batch.map((item, index) => {
+          // Logs carry their own version; unversioned ones inherit the batch's
+          const version =
+            item && typeof item === "object" && "protocolVersion" in item
+              ? this.protocol.resolveVersion(item)
+              : batchVersion;
+          if (version === null) {
+            return {
+              index,
+              success: false,
+              error: `Unsupported protocol version: ${item.protocolVersion}`,
+            };
+          }
+
+          const errors = this.protocol.validateLog(item, version);
+          if (errors.length > 0) {
+            return {
+              index,
+              success: false,
+              error: describeErrors(errors),
+              errors,
+            };
+          }
+          const profileLog = this.addLog(item, version);
+          acceptedLogs.push(profileLog);
+          return { index, success: true, logId: profileLog.id };
+        });
+
+        if (acceptedLogs.length > 0) {
+          this.emit("logsReceived", acceptedLogs);
+        }
+
+        const accepted = results.filter((result) => result.success).length;
+        res.json({
+          success: accepted === batch.length,
+          accepted,
+          rejected: batch.length - accepted,
+          totalLogs: this.session!.logCount,
+          protocolVersion: batchVersion,
+          results,
+        });
+
+        console.log(
+          `[Profiler] Received batch: ${accepted}/${batch.length} logs accepted`
+        );
+        console.log(
+          `[Profiler] Total logs collected: ${this.session!.logCount}`
+        );
+      } catch (error: any) {
+        console.error("[Profiler] Error processing profile batch:", error);
+        res
+          .status(500)
+          .json({ error: "Internal server error", message: error.message });
+      }
+    });
+
+    // Body parser failures (malformed JSON, oversized bodies) answer in the
+    // same shape as schema errors instead of express's HTML stack trace page
+    this.app.use(
+      (
+        error: any,
+        req: express.Request,
+        res: express.Response,
+        next: express.NextFunction
+      ) => {
+        if (res.headersSent) {
+          next(error);
+          return;
+        }
+        const errors: FieldError[] = [
+          {
+            field: "(root)",
+            message:
+              error.type === "entity.too.large"
+                ? `exceeds ${MAX_BODY_SIZE}`
+                : error.type === "entity.parse.failed"
+                  ? "is not valid JSON"
+                  : "could not be read",
+          },
+        ];
+        res
+          .status(error.type === "entity.too.large" ? 413 : 400)
+          .json({ error: describeErrors(errors), errors });
+      }
+    );
+  }
+
+  /**
+   * Applies the per-client rate limit and token check to a request
+   */
+  private guardRequest(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) {
+    // Clients are identified by address plus the runtime's client id header,
+    // so several apps behind one address (e.g. emulators) get separate budgets.
+    // The header is chosen by the sender, so it only counts once the token
+    // checks out; otherwise new header values would dodge the limit
+    const authorized = this.isAuthorized(req.get("X-Profiler-Token"));
+    const clientKey = authorized
+      ? `${req.ip}|${req.get("X-Profiler-Client") || ""}`
+      : `${req.ip}`;
+    const retryAfterMs = this.rateLimiter.take(clientKey);
+    if (retryAfterMs > 0) {
+      const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+      res.setHeader("Retry-After", String(retryAfterSeconds));
+      res.status(429).json({
+        error: "Too many requests: per-client rate limit exceeded",
+        retryAfter: retryAfterSeconds,
+      });
+      return;
+    }
+
+    if (!authorized) {
+      res.status(401).json({
+        error:
+          "Missing or invalid profiler token: check PROFILER_AUTH_TOKEN in rn-profiler-config.ts",
+      });
+      return;
+    }
+
+    next();
+  }
+
+  /**
+   * Compares a presented token against the server's token in constant time
+   */
+  private isAuthorized(token: string | undefined): boolean {
+    if (!this.authToken) {
+      return true;
+    }
+    if (!token) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.authToken);
+    const actual = Buffer.from(token);
+    return (
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    );
+  }
+
+  /**
+   * Sends a 409 when no recording is active; returns true if the request may proceed
+   */
+  private rejectIfNotRecording(res: express.Response): boolean {
+    if (!this.isRecording()) {
+      res.status(409).json({ error: "No recording in progress" });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Sends a 400 naming the versions the extension does accept
+   */
+  private rejectUnsupportedVersion(res: express.Response, version: unknown) {
+    res.status(400).json({
+      error: `Unsupported protocol version: ${version}`,
+      supportedVersions: SUPPORTED_PROTOCOL_VERSIONS,
+    });
+  }
+
+  /**
+   * Upgrades a validated log to the current format and stores it
+   */
+  private addLog(payload: unknown, version: number): ProfileLog {
+    const profileLog = this.protocol.upgradeLog(payload, version);
+    this.session!.addLog(profileLog);
+    return profileLog;
+  }
+
+  /**
+   * Wires up the WebSocket control channel on top of the HTTP server
+   */
+  private setupControlChannel(server: http.Server) {
+    this.controlServer = new WebSocketServer({
+      server,
+      path: "/control",
+      // WebSocket clients pass the token as a query parameter (?token=...)
+      verifyClient: (info, callback) => {
+        const url = new URL(info.req.url || "", "http://localhost");
+        if (this.isAuthorized(url.searchParams.get("token") || undefined)) {
+          callback(true);
+        } else {
+          callback(false, 401, "Missing or invalid profiler token");
+        }
+      },
+    });
+
+    this.controlServer.on("connection", (socket) => {
+      socket.on("message", (data) => this.handleControlMessage(socket, data));
+
+      socket.on("close", () => {
+        const client = this.controlClients.get(socket);
+        this.controlClients.delete(socket);
+        if (client) {
+          console.log(
+            `[Profiler] Control client disconnected: ${client.deviceInfo.os} (${client.clientId})`
+          );
+          this.emit("clientDisconnected", client);
+        }
+      });
+
+      socket.on("error", (error) => {
+        console.error("[Profiler] Control channel socket error:", error);
+      });
+    });
+  }
+
+  private handleControlMessage(socket: WebSocket, data: RawData) {
+    let message: ControlClientMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch (error) {
+      console.warn("[Profiler] Ignoring malformed control message");
+      return;
+    }
+
+    const errors = this.protocol.validateControlMessage(message);
+    if (errors.length > 0) {
+      console.warn(
+        `[Profiler] Ignoring invalid control message: ${describeErrors(errors)}`
+      );
+      return;
+    }
+
+    if (message.type === "hello") {
+      const protocolVersion = negotiateProtocolVersion(
+        message.protocolVersions
+      );
+      if (protocolVersion === null) {
+        console.warn(
+          `[Profiler] Control client ${message.clientId} speaks no supported protocol version`
+        );
+        socket.close(4000, "Unsupported protocol version");
+        return;
+      }
+
+      const client: ControlClientInfo = {
+        clientId: message.clientId,
+        deviceInfo: message.deviceInfo,
+        connectedAt: new Date().toISOString(),
+        protocolVersion,
+      };
+      this.controlClients.set(socket, client);
+      console.log(
+        `[Profiler] Control client connected: ${client.deviceInfo.os} (${client.clientId})`
+      );
+      this.emit("clientConnected", client);
+
+      // v1 runtimes don't know the welcome command, so only v2+ get one
+      if (protocolVersion > 1) {
+        this.send(socket, { type: "welcome", protocolVersion });
+      }
+
+      // Bring the newly connected runtime up to date with the current state
+      this.send(
+        socket,
+        this.isRecording()
+          ? {
+              type: "start",
+              sessionId: this.session!.id,
+              components: this.components,
+            }
+          : { type: "stop" }
+      );
+    } else if (message.type === "ack") {
+      const client = this.controlClients.get(socket);
+      if (client) {
+        client.clientId = message.clientId;
+        client.sessionId = message.sessionId;
+        client.deviceInfo = message.deviceInfo;
+        client.lastAck = message.command;
+        this.emit("clientAcknowledged", client);
+      }
+    }
+  }
+
+  private send(socket: WebSocket, command: ControlCommand) {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(command));
+    }
   }
 
+  private broadcast(command: ControlCommand) {
+    for (const socket of this.controlClients.keys()) {
+      this.send(socket, command);
+    }
+  }
+
+  /**
+   * Starts listening on the configured port, or the next free one within
+   * the port range; getPort() returns the port actually used
+   */
   async start(): Promise<void> {
+    const firstPort = this.preferredPort;
+    const lastPort = firstPort + this.portRange - 1;
+
+    for (let port = firstPort; port <= lastPort; port++) {
+      try {
+        await this.listen(port);
+        this.port = port;
+        this.setupControlChannel(this.server!);
+        this.pruneTimer = setInterval(() => this.rateLimiter.prune(), 60000);
+        console.log(`Profiler server started on ${this.host}:${port}`);
+        return;
+      } catch (error: any) {
+        if (error.code !== "EADDRINUSE") {
+          this.port = firstPort;
+          throw error;
+        }
+        console.log(`[Profiler] Port ${port} is already in use`);
+      }
+    }
+
+    this.port = firstPort;
+    throw new Error(
+      firstPort === lastPort
+        ? `Port ${firstPort} is already in use`
+        : `Ports ${firstPort}-${lastPort} are all in use`
+    );
+  }
+
+  private listen(port: number): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
-        this.server = this.app.listen(this.port, () => {
-          console.log(`Profiler server started on port ${this.port}`);
-          resolve();
+        const server = http.createServer(this.app);
+        this.server = server;
+
+        server.once("error", (error: any) => {
+          this.server = undefined;
+          reject(error);
         });
 
-        this.server.on("error", (error: any) => {
-          if (error.code === "EADDRINUSE") {
-            reject(new Error(`Port ${this.port} is already in use`));
-          } else {
-            reject(error);
-          }
+        server.listen(port, this.host, () => {
+          // Errors after startup are logged rather than crashing the host
+          server.removeAllListeners("error");
+          server.on("error", (error) => {
+            console.error("[Profiler] Server error:", error);
+          });
+          resolve();
         });
       } catch (error) {
+        this.server = undefined;
         reject(error);
       }
     });
   }
 
   stop(): void {
+    if (this.controlServer) {
+      for (const socket of this.controlClients.keys()) {
+        socket.close();
+      }
+      this.controlClients.clear();
+      this.controlServer.close();
+      this.controlServer = undefined;
+    }
     if (this.server) {
       this.server.close();
       this.server = undefined;
       console.log("Profiler server stopped");
     }
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = undefined;
+    }
+    this.session?.end().catch((error) => {
+      console.error("[Profiler] Failed to end the session:", error);
+    });
+  }
+
+  /**
+   * Begins a new recording session, accepts ingestion and tells connected
+   * runtimes to start profiling
+   */
+  startRecording(
+    components: string[],
+    sessionOptions?: RecordingSessionOptions
+  ): SessionInfo {
+    if (sessionOptions) {
+      this.sessionOptions = sessionOptions;
+    }
+    this.session = new RecordingSession(undefined, this.sessionOptions);
+    this.components = [...components];
+    this.broadcast({
+      type: "start",
+      sessionId: this.session.id,
+      components: this.components,
+    });
+    return this.session.getInfo();
   }
 
-  getLogs(): ProfileLog[] {
-    return [...this.logs];
+  /**
+   * Ends the current session, stops accepting logs and tells connected
+   * runtimes to stop profiling
+   */
+  async stopRecording(): Promise<SessionInfo | undefined> {
+    this.broadcast({ type: "stop" });
+    await this.session?.end();
+    return this.session?.getInfo();
   }
 
-  clearLogs(): void {
-    this.logs = [];
+  /**
+   * Pushes an updated COMPONENTS_TO_PROFILE list to connected runtimes
+   */
+  setComponents(components: string[]): void {
+    this.components = [...components];
+    this.broadcast({ type: "components", components: this.components });
+  }
+
+  getControlClients(): ControlClientInfo[] {
+    return Array.from(this.controlClients.values());
+  }
+
+  /**
+   * Returns the current (or most recent) session's summary
+   */
+  getSession(): SessionInfo | undefined {
+    return this.session?.getInfo();
+  }
+
+  /**
+   * Returns logs of the current session, optionally for a single client
+   */
+  getLogs(clientId?: string): ProfileLog[] {
+    return this.session ? this.session.getLogs(clientId) : [];
+  }
+
+  /**
+   * Returns every log of the current session, including ones spilled to
+   * disk; use once the recording has stopped
+   */
+  getAllLogs(): Promise<ProfileLog[]> {
+    return this.session ? this.session.getAllLogs() : Promise.resolve([]);
+  }
+
+  /**
+   * Returns logs of the current session that arrived after sequence number
+   * `seq`; pair with getLastSeq() to deliver incremental updates
+   */
+  getLogsSince(seq: number): ProfileLog[] {
+    return this.session ? this.session.getLogsSince(seq) : [];
+  }
+
+  getLastSeq(): number {
+    return this.session ? this.session.lastSeq : 0;
+  }
+
+  /**
+   * Port the server listens on; after start() this may be a fallback port
+   */
+  getPort(): number {
+    return this.port;
   }
 
   isRunning(): boolean {
     return this.server !== undefined;
   }
+
+  isRecording(): boolean {
+    return this.session !== undefined && this.session.isActive();
+  }
+}
+
+/**
+ * Summarises field errors as one message, e.g. "actualDuration must be number"
+ */
+function describeErrors(errors: FieldError[]): string {
+  return `Invalid payload: ${errors
+    .map((error) => `${error.field} ${error.message}`)
+    .join("; ")}`;
 }
@@ -0,0 +1,124 @@
+/**
+ * Wire protocol between the React Native runtime and the extension.
+ *
+ * This file has no imports so app projects can copy it verbatim (as
+ * rn-profiler-protocol.ts) instead of redeclaring the payload types.
+ * schema/protocol.schema.json is generated from it with `npm run schema`,
+ * and the server validates incoming payloads against that schema.
+ *
+ * Versions:
+ *   1 - unversioned logs; only id, phase and actualDuration were checked
+ *   2 - every log carries protocolVersion, clientId and its full timings
+ */
+
+/**
+ * Protocol version spoken by this side of the connection
+ */
+export const PROTOCOL_VERSION = 2;
+
+/**
+ * Versions the extension still accepts (older runtimes are upgraded on ingest)
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS: number[] = [1, 2];
+
+/**
+ * Service name returned by GET /discover, so runtimes can tell the profiler
+ * server apart from whatever else is listening on a port
+ */
+export const DISCOVERY_SERVICE = 'rn-profiler-ai';
+
+/**
+ * Device details reported by the React Native runtime
+ */
+export interface DeviceInfo {
+    os: string; // e.g., 'ios', 'android'
+    version: string; // OS version
+    model?: string; // Device model
+}
+
+export type RenderPhase = 'mount' | 'update' | 'force-update';
+
+/**
+ * A single render as sent by the runtime (protocol v2)
+ */
+export interface ProfileLogPayload {
+    protocolVersion: 2;
+    /** @minLength 1 */
+    id: string; // Component name or unique ID
+    phase: RenderPhase;
+    /** @minimum 0 */
+    actualDuration: number; // Time spent rendering
+    /** @minimum 0 */
+    baseDuration: number; // Estimated time without memoization
+    startTime: number;
+    commitTime: number;
+    /** @minLength 1 */
+    timestamp: string; // ISO string of when render completed
+    deviceInfo: DeviceInfo;
+    interactions?: string[]; // Array of interaction IDs associated with this render
+    /** @minLength 1 */
+    clientId: string; // Runtime instance that sent this log (one per device/app launch)
+}
+
+/**
+ * A render as sent by runtimes predating protocolVersion (v1). Unknown
+ * fields were never rejected, so they are still tolerated here
+ */
+export interface LegacyProfileLogPayload {
+    /** @minLength 1 */
+    id: string;
+    phase: RenderPhase;
+    actualDuration: number;
+    baseDuration?: number;
+    startTime?: number;
+    commitTime?: number;
+    timestamp?: string;
+    deviceInfo?: DeviceInfo;
+    interactions?: string[];
+    clientId?: string;
+    [key: string]: unknown;
+}
+
+/**
+ * Body of POST /profile-data/batch. Legacy runtimes send a bare array of logs
+ */
+export interface ProfileBatchPayload {
+    protocolVersion: number;
+    logs: unknown[]; // Each log is validated individually
+}
+
+/**
+ * Response of GET /protocol, used by runtimes to pick a version to send
+ */
+export interface ProtocolInfo {
+    protocolVersion: number;
+    supportedVersions: number[];
+}
+
+/**
+ * Response of GET /discover. Runtimes probe a range of ports for it when the
+ * configured server URL doesn't answer (the port falls back when taken)
+ */
+export interface DiscoveryInfo extends ProtocolInfo {
+    service: 'rn-profiler-ai';
+    port: number; // Port the server actually listens on
+    authRequired: boolean;
+}
+
+/**
+ * Commands pushed from the extension to connected app runtimes over the
+ * WebSocket control channel
+ */
+export type ControlCommand =
+    | { type: 'welcome'; protocolVersion: number }
+    | { type: 'start'; sessionId: string; components: string[] }
+    | { type: 'stop' }
+    | { type: 'components'; components: string[] };
+
+/**
+ * Messages sent by the app runtime over the control channel. Runtimes list
+ * the protocol versions they speak in hello; older ones omit it (v1)
+ */
+export type ControlClientMessage =
+    | { type: 'hello'; clientId: string; deviceInfo: DeviceInfo; protocolVersions?: number[] }
+    | { type: 'ack'; command: ControlCommand['type']; clientId: string; sessionId?: string; deviceInfo: DeviceInfo };
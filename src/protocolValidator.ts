@@ -0,0 +1,147 @@
+import * as fs from "fs";
+import * as path from "path";
+import Ajv, { ErrorObject, ValidateFunction } from "ajv";
+import { ProfileLog, FieldError } from "./types";
+import {
+  PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  LegacyProfileLogPayload,
+  ProfileLogPayload,
+} from "./protocol";
+
+// Generated from src/protocol.ts by `npm run schema`; resolves from both src/ and out/
+const SCHEMA_PATH = path.join(
+  __dirname,
+  "..",
+  "schema",
+  "protocol.schema.json"
+);
+const SCHEMA_ID = "rn-profiler-protocol";
+
+// Schema definition that validates a log of each supported version
+const LOG_DEFINITIONS: Record<number, string> = {
+  1: "LegacyProfileLogPayload",
+  2: "ProfileLogPayload",
+};
+
+/**
+ * Picks the highest protocol version both sides speak, or null if there is
+ * none. Runtimes that don't announce their versions only speak v1
+ */
+export function negotiateProtocolVersion(
+  clientVersions: number[] = [1],
+  serverVersions: number[] = SUPPORTED_PROTOCOL_VERSIONS
+): number | null {
+  const common = clientVersions.filter((version) =>
+    serverVersions.includes(version)
+  );
+  return common.length > 0 ? Math.max(...common) : null;
+}
+
+/**
+ * Validates wire payloads against the published JSON Schema and upgrades
+ * logs from older protocol versions to the current ProfileLog shape
+ */
+export class ProtocolValidator {
+  private schema: object;
+  private ajv: Ajv;
+  private validators = new Map<string, ValidateFunction>();
+
+  constructor(schemaPath: string = SCHEMA_PATH) {
+    this.schema = JSON.parse(fs.readFileSync(schemaPath, "utf8"));
+    this.ajv = new Ajv({ allErrors: true });
+    this.ajv.addSchema(this.schema, SCHEMA_ID);
+  }
+
+  getSchema(): object {
+    return this.schema;
+  }
+
+  /**
+   * Resolves the version a payload was sent with (unversioned payloads are
+   * v1), or null if the extension doesn't accept it
+   */
+  resolveVersion(payload: any): number | null {
+    const version =
+      payload && typeof payload === "object" && "protocolVersion" in payload
+        ? payload.protocolVersion
+        : 1;
+    return SUPPORTED_PROTOCOL_VERSIONS.includes(version) ? version : null;
+  }
+
+  /**
+   * Checks a log against the schema for its protocol version
+   */
+  validateLog(payload: unknown, version: number): FieldError[] {
+    return this.validate(LOG_DEFINITIONS[version], payload);
+  }
+
+  validateBatch(payload: unknown): FieldError[] {
+    return this.validate("ProfileBatchPayload", payload);
+  }
+
+  validateControlMessage(payload: unknown): FieldError[] {
+    return this.validate("ControlClientMessage", payload);
+  }
+
+  /**
+   * Converts a validated payload into the stored ProfileLog shape, filling
+   * in fields that older runtimes didn't send
+   */
+  upgradeLog(payload: unknown, version: number): ProfileLog {
+    if (version === PROTOCOL_VERSION) {
+      return { ...(payload as ProfileLogPayload) };
+    }
+
+    const legacy = payload as LegacyProfileLogPayload;
+    return {
+      protocolVersion: version,
+      id: legacy.id,
+      phase: legacy.phase,
+      actualDuration: legacy.actualDuration,
+      baseDuration: legacy.baseDuration ?? legacy.actualDuration,
+      startTime: legacy.startTime ?? 0,
+      commitTime: legacy.commitTime ?? 0,
+      timestamp: legacy.timestamp || new Date().toISOString(),
+      deviceInfo: legacy.deviceInfo || { os: "unknown", version: "unknown" },
+      interactions: legacy.interactions,
+      clientId: legacy.clientId,
+    };
+  }
+
+  private validate(definition: string, payload: unknown): FieldError[] {
+    let validator = this.validators.get(definition);
+    if (!validator) {
+      validator = this.ajv.compile({
+        $ref: `${SCHEMA_ID}#/definitions/${definition}`,
+      });
+      this.validators.set(definition, validator);
+    }
+
+    if (validator(payload)) {
+      return [];
+    }
+    return (validator.errors || []).map(toFieldError);
+  }
+}
+
+/**
+ * Flattens an Ajv error into a dotted field path and a readable message
+ */
+function toFieldError(error: ErrorObject): FieldError {
+  const segments = error.instancePath.split("/").filter(Boolean);
+  if (error.keyword === "required") {
+    segments.push(error.params.missingProperty);
+  } else if (error.keyword === "additionalProperties") {
+    segments.push(error.params.additionalProperty);
+    return { field: segments.join("."), message: "is not a known field" };
+  }
+
+  return {
+    field: segments.join(".") || "(root)",
+    message:
+      error.keyword === "required"
+        ? "is required"
+        : error.message || "is invalid",
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Token-bucket rate limiter keyed by client. Each client may burst up to
+ * `burst` requests, refilled at `ratePerSecond`.
+ */
+export class RateLimiter {
+  private ratePerSecond: number;
+  private burst: number;
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  constructor(ratePerSecond: number, burst: number = ratePerSecond * 2) {
+    this.ratePerSecond = ratePerSecond;
+    this.burst = burst;
+  }
+
+  /**
+   * Consumes one request for the client. Returns 0 if allowed, otherwise the
+   * number of milliseconds until the next request would be allowed.
+   */
+  take(key: string, now: number = Date.now()): number {
+    const bucket = this.buckets.get(key) || {
+      tokens: this.burst,
+      updatedAt: now,
+    };
+
+    const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(
+      this.burst,
+      bucket.tokens + elapsedSeconds * this.ratePerSecond
+    );
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+
+    return Math.ceil(((1 - bucket.tokens) / this.ratePerSecond) * 1000);
+  }
+
+  /**
+   * Forgets clients whose buckets have been full for a while
+   */
+  prune(now: number = Date.now()) {
+    const idleMs = (this.burst / this.ratePerSecond) * 1000;
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt > idleMs) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
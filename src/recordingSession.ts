@@ -0,0 +1,153 @@
+import * as path from "path";
+import { ProfileLog, SessionClient, SessionInfo } from "./types";
+import { LogStore } from "./logStore";
+
+// Default number of logs a session keeps in memory
+export const DEFAULT_MAX_LOGS = 50000;
+
+/**
+ * Limits for a session's in-memory log store
+ */
+export interface RecordingSessionOptions {
+  maxLogs?: number;
+  spillDir?: string; // When set, evicted logs go to <spillDir>/<id>.spill.ndjson
+}
+
+/**
+ * A single recording, with logs partitioned into one stream per client
+ * (device/app launch) so renders from several devices don't interleave.
+ * Logs live in a bounded LogStore so long recordings can't grow without limit.
+ */
+export class RecordingSession {
+  readonly id: string;
+  readonly startTime: string;
+  private endTime: string | undefined;
+  private clients = new Map<string, SessionClient>();
+  private store: LogStore;
+
+  constructor(
+    id: string = RecordingSession.generateId(),
+    options: RecordingSessionOptions = {}
+  ) {
+    this.id = id;
+    this.startTime = new Date().toISOString();
+    this.store = new LogStore(
+      options.maxLogs || DEFAULT_MAX_LOGS,
+      options.spillDir
+        ? path.join(options.spillDir, `${id}.spill.ndjson`)
+        : undefined
+    );
+  }
+
+  /**
+   * Generates a sortable, reasonably unique session id
+   */
+  static generateId(): string {
+    const stamp = new Date().toISOString().replace(/[-:]/g, "").slice(0, 15);
+    const suffix = Math.random().toString(36).slice(2, 6);
+    return `${stamp}-${suffix}`;
+  }
+
+  /**
+   * Derives a client id for logs from runtimes that don't send one
+   */
+  static fallbackClientId(log: ProfileLog): string {
+    return `${log.deviceInfo.os}-${log.deviceInfo.version}`;
+  }
+
+  addLog(log: ProfileLog) {
+    const clientId = log.clientId || RecordingSession.fallbackClientId(log);
+    log.clientId = clientId;
+
+    const client = this.clients.get(clientId);
+    if (client) {
+      client.lastSeen = log.timestamp;
+      client.logCount += 1;
+    } else {
+      this.clients.set(clientId, {
+        clientId,
+        deviceInfo: log.deviceInfo,
+        firstSeen: log.timestamp,
+        lastSeen: log.timestamp,
+        logCount: 1,
+      });
+    }
+
+    this.store.push(log);
+  }
+
+  /**
+   * Returns logs for one client, or all logs in arrival order
+   */
+  getLogs(clientId?: string): ProfileLog[] {
+    const logs = this.store.toArray();
+    if (clientId) {
+      return logs.filter((log) => log.clientId === clientId);
+    }
+    return logs;
+  }
+
+  /**
+   * Returns all logs of the session, including ones spilled to disk, in
+   * arrival order
+   */
+  getAllLogs(): Promise<ProfileLog[]> {
+    return this.store.readAll();
+  }
+
+  /**
+   * Returns logs that arrived after sequence number `seq` (see LogStore)
+   */
+  getLogsSince(seq: number): ProfileLog[] {
+    return this.store.getSince(seq);
+  }
+
+  /**
+   * Sequence number of the newest log
+   */
+  get lastSeq(): number {
+    return this.store.lastSeq;
+  }
+
+  /**
+   * Number of logs held in memory
+   */
+  get logCount(): number {
+    return this.store.size;
+  }
+
+  /**
+   * Number of logs accepted since the session started, including evicted ones
+   */
+  get receivedCount(): number {
+    return this.store.getStats().received;
+  }
+
+  /**
+   * Stops the session; resolves once evicted logs are written to the spill
+   * file
+   */
+  async end(): Promise<void> {
+    if (!this.endTime) {
+      this.endTime = new Date().toISOString();
+      await this.store.flush();
+    }
+  }
+
+  isActive(): boolean {
+    return this.endTime === undefined;
+  }
+
+  getInfo(): SessionInfo {
+    return {
+      id: this.id,
+      startTime: this.startTime,
+      endTime: this.endTime,
+      clients: Array.from(this.clients.values()).map((client) => ({
+        ...client,
+      })),
+      logCount: this.store.size,
+      storeStats: this.store.getStats(),
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ComponentTreeProvider } from "./componentTreeProvider";
+import { ActiveSession } from "./activeSession";
+
+// Files the component tree scans for components
+export const COMPONENT_FILE_SELECTOR: vscode.DocumentSelector = [
+  { scheme: "file", language: "typescriptreact" },
+  { scheme: "file", language: "typescript" },
+  { scheme: "file", language: "javascriptreact" },
+  { scheme: "file", language: "javascript" },
+];
+
+/**
+ * Shows each component's renders in the active session above its
+ * declaration, e.g. "12 renders · p95 3.4 ms · last session". Clicking the
+ * lens opens the component's statistics in the Profiler Panel. Components
+ * wrapped with withProfiler that didn't render are marked; other components
+ * without renders get no lens
+ */
+export class RenderCodeLensProvider implements vscode.CodeLensProvider {
+  private componentTreeProvider: ComponentTreeProvider;
+  private activeSession: ActiveSession;
+  private changeEmitter = new vscode.EventEmitter<void>();
+
+  readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+  constructor(
+    componentTreeProvider: ComponentTreeProvider,
+    activeSession: ActiveSession
+  ) {
+    this.componentTreeProvider = componentTreeProvider;
+    this.activeSession = activeSession;
+  }
+
+  /**
+   * Re-queries the lenses, e.g. when the active session or settings change
+   */
+  refresh() {
+    this.changeEmitter.fire();
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const enabled = vscode.workspace
+      .getConfiguration("rnProfilerAI")
+      .get<boolean>("showCodeLens", true);
+    if (!enabled || !this.activeSession.getSession()) {
+      return [];
+    }
+
+    let declarations;
+    try {
+      declarations = this.componentTreeProvider.findComponentDeclarations(
+        document.getText(),
+        path.basename(document.fileName)
+      );
+    } catch (error) {
+      return []; // Unparseable while being edited; try again on the next change
+    }
+
+    const relativePath = vscode.workspace.asRelativePath(document.uri, false);
+    const lenses: vscode.CodeLens[] = [];
+    for (const declaration of declarations) {
+      const range = new vscode.Range(
+        declaration.line,
+        declaration.column,
+        declaration.line,
+        declaration.column
+      );
+      const stats = this.activeSession.findComponent(
+        `${relativePath}::${declaration.name}`,
+        declaration.profilerId,
+        declaration.name
+      );
+
+      if (stats) {
+        const count = stats.durations.count;
+        lenses.push(
+          new vscode.CodeLens(range, {
+            title: `${count} ${count === 1 ? "render" : "renders"} · p95 ${stats.durations.p95.toFixed(1)} ms · last session`,
+            tooltip: `Show ${stats.id} in the Profiler Panel`,
+            command: "rnProfilerAI.showComponent",
+            arguments: [stats.id],
+          })
+        );
+      } else if (declaration.profilerId !== undefined) {
+        lenses.push(
+          new vscode.CodeLens(range, {
+            title: "withProfiler · not rendered in last session",
+            tooltip: `No renders of "${declaration.profilerId}" were recorded in the last session`,
+            command: "",
+          })
+        );
+      }
+    }
+    return lenses;
+  }
+
+  dispose() {
+    this.changeEmitter.dispose();
+  }
+}
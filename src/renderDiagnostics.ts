@@ -0,0 +1,152 @@
+import * as vscode from "vscode";
+import { ComponentLocator } from "./componentLocator";
+import { ActiveSession } from "./activeSession";
+import { AnalysisFinding, FindingSeverity } from "./logAnalyzer";
+import { ComponentStats } from "./stats";
+
+export const DIAGNOSTIC_SOURCE = "RN Profiler AI";
+
+/**
+ * p95 actualDuration in ms above which a component is reported at each
+ * level; levels left out aren't reported
+ */
+export type SlowRenderThresholds = Partial<Record<FindingSeverity, number>>;
+
+export const DEFAULT_SLOW_RENDER_THRESHOLDS: SlowRenderThresholds = {
+  High: 33.3,
+  Medium: 16.7,
+  Low: 8,
+};
+
+const SEVERITIES: Record<FindingSeverity, vscode.DiagnosticSeverity> = {
+  High: vscode.DiagnosticSeverity.Error,
+  Medium: vscode.DiagnosticSeverity.Warning,
+  Low: vscode.DiagnosticSeverity.Information,
+};
+
+/**
+ * A reason to report one component, before its declaration is located
+ */
+interface Problem {
+  severity: FindingSeverity;
+  message: string;
+  code: "slowRender" | "analysisFinding";
+}
+
+/**
+ * Reports components of the active session in the Problems panel, at their
+ * declarations: those whose p95 render exceeds the slowRenderThresholds
+ * setting, and those flagged by the last analysis of the session. Refreshed
+ * whenever another session becomes active or an analysis completes
+ */
+export class RenderDiagnostics {
+  private componentLocator: ComponentLocator;
+  private activeSession: ActiveSession;
+  private collection: vscode.DiagnosticCollection;
+  private generation = 0; // Discards refreshes overtaken by a newer one
+
+  constructor(
+    componentLocator: ComponentLocator,
+    activeSession: ActiveSession
+  ) {
+    this.componentLocator = componentLocator;
+    this.activeSession = activeSession;
+    this.collection =
+      vscode.languages.createDiagnosticCollection("rnProfilerAI");
+  }
+
+  async refresh(): Promise<void> {
+    const generation = ++this.generation;
+    const config = vscode.workspace.getConfiguration("rnProfilerAI");
+    const stats = this.activeSession.getStats();
+    if (!config.get<boolean>("showDiagnostics", true) || !stats) {
+      this.collection.clear();
+      return;
+    }
+
+    const thresholds = config.get<SlowRenderThresholds>(
+      "slowRenderThresholds",
+      DEFAULT_SLOW_RENDER_THRESHOLDS
+    );
+    const problems = new Map<string, Problem[]>(); // By logged component id
+    const add = (id: string, problem: Problem) =>
+      problems.set(id, [...(problems.get(id) || []), problem]);
+    for (const component of stats.components) {
+      const slow = describeSlowRender(component, thresholds);
+      if (slow) {
+        add(component.id, slow);
+      }
+    }
+    for (const finding of this.activeSession.getSessionFindings()) {
+      add(finding.component, describeFinding(finding));
+    }
+
+    const diagnostics = new Map<string, vscode.Diagnostic[]>();
+    for (const { uri, declaration, id } of await this.componentLocator.locate(
+      Array.from(problems.keys())
+    )) {
+      const range = new vscode.Range(
+        declaration.line,
+        declaration.column,
+        declaration.line,
+        declaration.column + declaration.name.length
+      );
+      const fileDiagnostics = diagnostics.get(uri.toString()) || [];
+      for (const problem of problems.get(id)!) {
+        const diagnostic = new vscode.Diagnostic(
+          range,
+          `${declaration.name}: ${problem.message}`,
+          SEVERITIES[problem.severity]
+        );
+        diagnostic.source = DIAGNOSTIC_SOURCE;
+        diagnostic.code = problem.code;
+        fileDiagnostics.push(diagnostic);
+      }
+      diagnostics.set(uri.toString(), fileDiagnostics);
+    }
+
+    if (generation !== this.generation) {
+      return;
+    }
+    this.collection.clear();
+    for (const [uri, fileDiagnostics] of diagnostics) {
+      this.collection.set(vscode.Uri.parse(uri), fileDiagnostics);
+    }
+  }
+
+  dispose() {
+    this.collection.dispose();
+  }
+}
+
+/**
+ * The highest threshold level a component's p95 render exceeds, if any
+ */
+function describeSlowRender(
+  component: ComponentStats,
+  thresholds: SlowRenderThresholds
+): Problem | undefined {
+  const p95 = component.durations.p95;
+  const count = component.durations.count;
+  const severity = (["High", "Medium", "Low"] as FindingSeverity[]).find(
+    (level) => thresholds[level] !== undefined && p95 > thresholds[level]!
+  );
+  if (!severity) {
+    return undefined;
+  }
+  return {
+    severity,
+    code: "slowRender",
+    message:
+      `p95 render ${p95.toFixed(2)} ms exceeds ${thresholds[severity]} ms ` +
+      `(${count} ${count === 1 ? "render" : "renders"} in the last session)`,
+  };
+}
+
+function describeFinding(finding: AnalysisFinding): Problem {
+  return {
+    severity: finding.severity,
+    code: "analysisFinding",
+    message: `${finding.issue} (last analysis)`,
+  };
+}
@@ -0,0 +1,292 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { parse } from "@babel/parser";
+import * as t from "@babel/types";
+import { ComponentTreeProvider } from "./componentTreeProvider";
+import { ActiveSession } from "./activeSession";
+import { ComponentStats, DEFAULT_HISTOGRAM_EDGES } from "./stats";
+
+// Tried in order when an import path names no file extension
+const MODULE_EXTENSIONS = [".tsx", ".ts", ".jsx", ".js"];
+const SPARKLINE_LEVELS = "▁▂▃▄▅▆▇█";
+
+/**
+ * The component a hovered name refers to, and the ids its renders may be
+ * logged under
+ */
+interface HoverTarget {
+  name: string;
+  ids: Array<string | undefined>;
+  wrapped: boolean; // Passed to withProfiler, so renders were expected
+}
+
+/**
+ * Shows a component's renders in the active session when hovering its name
+ * in a declaration or a JSX tag: mount and update counts, a sparkline of
+ * the duration histogram, the baseDuration/actualDuration ratio and the
+ * findings of the last analysis. Components used in JSX are followed to
+ * their file through relative imports, to match "path::Name" ids
+ */
+export class RenderHoverProvider implements vscode.HoverProvider {
+  private componentTreeProvider: ComponentTreeProvider;
+  private activeSession: ActiveSession;
+
+  constructor(
+    componentTreeProvider: ComponentTreeProvider,
+    activeSession: ActiveSession
+  ) {
+    this.componentTreeProvider = componentTreeProvider;
+    this.activeSession = activeSession;
+  }
+
+  async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.Hover | undefined> {
+    const range = document.getWordRangeAtPosition(position, /[A-Za-z_$][\w$]*/);
+    if (!range || !this.activeSession.getSession()) {
+      return undefined;
+    }
+    const name = document.getText(range);
+    if (!/^[A-Z]/.test(name)) {
+      return undefined; // Components are capitalized; skip everything else
+    }
+
+    const target = await this.findTarget(document, range, name);
+    if (!target) {
+      return undefined;
+    }
+
+    const stats = this.activeSession.findComponent(...target.ids);
+    const findings = this.activeSession.getFindings(...target.ids, stats?.id);
+    if (!stats && findings.length === 0 && !target.wrapped) {
+      return undefined;
+    }
+
+    const markdown = new vscode.MarkdownString();
+    markdown.appendMarkdown(
+      `**${target.name}**${stats ? ` \`${stats.id}\`` : ""} · last session\n\n`
+    );
+    if (stats) {
+      markdown.appendMarkdown(describeRenders(stats));
+    } else {
+      markdown.appendMarkdown("Not rendered in the last session.\n\n");
+    }
+    if (findings.length > 0) {
+      markdown.appendMarkdown("Findings of the last analysis:\n\n");
+      for (const finding of findings.slice(0, 3)) {
+        markdown.appendMarkdown(`- **${finding.severity}**: `);
+        markdown.appendText(finding.issue);
+        markdown.appendMarkdown("\n");
+      }
+    }
+    return new vscode.Hover(markdown, range);
+  }
+
+  /**
+   * Resolves a hovered name at a component declaration in this file, or in
+   * a JSX tag, to the component it refers to
+   */
+  private async findTarget(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    name: string
+  ): Promise<HoverTarget | undefined> {
+    const content = document.getText();
+    let declarations;
+    try {
+      declarations = this.componentTreeProvider.findComponentDeclarations(
+        content,
+        path.basename(document.fileName)
+      );
+    } catch (error) {
+      return undefined;
+    }
+
+    const declaration = declarations.find(
+      (candidate) => candidate.name === name
+    );
+    const atDeclaration =
+      declaration?.line === range.start.line &&
+      declaration.column === range.start.character;
+    const linePrefix = document
+      .lineAt(range.start.line)
+      .text.slice(0, range.start.character);
+    const inJsxTag = /<\/?\s*$/.test(linePrefix);
+    if (!atDeclaration && !inJsxTag) {
+      return undefined;
+    }
+
+    // Declared in this file
+    if (declaration) {
+      const relativePath = vscode.workspace.asRelativePath(document.uri, false);
+      return {
+        name,
+        ids: [
+          `${relativePath}::${name}`,
+          declaration.profilerId,
+          declaration.name,
+        ],
+        wrapped: declaration.profilerId !== undefined,
+      };
+    }
+
+    // Imported from another file of the project
+    const imported = findImport(content, name);
+    const filePath =
+      imported &&
+      resolveModule(path.dirname(document.fileName), imported.source);
+    if (!imported || !filePath) {
+      return { name, ids: [name], wrapped: false };
+    }
+
+    const relativePath = vscode.workspace.asRelativePath(filePath, false);
+    let target;
+    try {
+      const source = await fs.promises.readFile(filePath, "utf8");
+      target = this.componentTreeProvider
+        .findComponentDeclarations(source, path.basename(filePath))
+        .find((candidate) =>
+          imported.importedName === undefined
+            ? candidate.defaultExport
+            : candidate.name === imported.importedName
+        );
+    } catch (error) {
+      // Unreadable or unparseable; match by name below
+    }
+    if (!target) {
+      const importedName = imported.importedName || name;
+      return {
+        name,
+        ids: [`${relativePath}::${importedName}`, importedName, name],
+        wrapped: false,
+      };
+    }
+    return {
+      name,
+      ids: [
+        `${relativePath}::${target.name}`,
+        target.profilerId,
+        target.name,
+        name,
+      ],
+      wrapped: target.profilerId !== undefined,
+    };
+  }
+}
+
+/**
+ * Finds the import that binds a local name: its module and the imported
+ * name (undefined for default imports)
+ */
+function findImport(
+  content: string,
+  localName: string
+): { source: string; importedName?: string } | undefined {
+  let ast;
+  try {
+    ast = parse(content, {
+      sourceType: "module",
+      plugins: ["jsx", "typescript", "decorators-legacy", "classProperties"],
+      errorRecovery: true,
+    });
+  } catch (error) {
+    return undefined;
+  }
+
+  for (const statement of ast.program.body) {
+    if (!t.isImportDeclaration(statement)) {
+      continue;
+    }
+    for (const specifier of statement.specifiers) {
+      if (specifier.local.name !== localName) {
+        continue;
+      }
+      if (t.isImportDefaultSpecifier(specifier)) {
+        return { source: statement.source.value };
+      }
+      if (t.isImportSpecifier(specifier)) {
+        const imported = specifier.imported;
+        return {
+          source: statement.source.value,
+          importedName: t.isIdentifier(imported)
+            ? imported.name
+            : imported.value,
+        };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolves a relative import to a source file, trying the usual extensions
+ * and index files; packages and path aliases aren't resolved
+ */
+function resolveModule(directory: string, source: string): string | undefined {
+  if (!source.startsWith(".")) {
+    return undefined;
+  }
+  const base = path.resolve(directory, source);
+  const candidates = [
+    base,
+    ...MODULE_EXTENSIONS.map((extension) => base + extension),
+    ...MODULE_EXTENSIONS.map((extension) =>
+      path.join(base, `index${extension}`)
+    ),
+  ];
+  return candidates.find(
+    (candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isFile()
+  );
+}
+
+/**
+ * Markdown lines for a component's renders: counts per phase, durations,
+ * the histogram as a sparkline and how much memoization saves
+ */
+function describeRenders(stats: ComponentStats): string {
+  const ms = (value: number) => `${value.toFixed(2)} ms`;
+  const phases = Object.entries(stats.phases)
+    .map(([phase, summary]) => `${phase} ${summary!.count}`)
+    .join(" · ");
+  const lines = [
+    `- Renders: **${stats.durations.count}** (${phases})`,
+    `- Duration: p50 ${ms(stats.durations.p50)} · p95 ${ms(
+      stats.durations.p95
+    )} · max ${ms(stats.durations.max)}`,
+    `- Histogram: \`${sparkline(stats.histogram.map((bucket) => bucket.count))}\` ` +
+      `(${DEFAULT_HISTOGRAM_EDGES.join(" · ")}+ ms)`,
+  ];
+
+  // baseDuration estimates rendering the whole subtree without memoization
+  if (stats.durations.mean > 0) {
+    const ratio = stats.baseDurations.mean / stats.durations.mean;
+    lines.push(
+      `- baseDuration/actualDuration: ${ratio.toFixed(1)}× — ` +
+        (ratio > 1.1
+          ? "memoization skips part of the subtree"
+          : "the whole subtree re-renders each time")
+    );
+  }
+  return lines.join("\n") + "\n\n";
+}
+
+/**
+ * One block character per value, scaled to the largest; zeros show as "·"
+ */
+function sparkline(values: number[]): string {
+  const highest = Math.max(1, ...values);
+  return values
+    .map((value) =>
+      value === 0
+        ? "·"
+        : SPARKLINE_LEVELS[
+            Math.min(
+              SPARKLINE_LEVELS.length - 1,
+              Math.floor((value / highest) * SPARKLINE_LEVELS.length)
+            )
+          ]
+    )
+    .join("");
+}
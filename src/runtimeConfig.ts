@@ -0,0 +1,44 @@
+import { ServerEndpoints } from "./serverAddress";
+
+/**
+ * Values written into the React Native app's generated rn-profiler-config.ts
+ */
+export interface RuntimeConfig {
+  enabled: boolean;
+  components: string[];
+  authToken: string; // Shared secret the runtime sends with every request
+  endpoints: ServerEndpoints; // Where the runtime finds the profiler server
+}
+
+/**
+ * Renders the contents of the generated rn-profiler-config.ts file
+ */
+export function renderRuntimeConfig(config: RuntimeConfig): string {
+  return `// Auto-generated by RN Profiler AI extension
+// Changes to this file may require a Metro Bundler restart
+
+export const PROFILING_ENABLED: boolean = ${config.enabled};
+export const COMPONENTS_TO_PROFILE: string[] = ${JSON.stringify(
+    config.components,
+    null,
+    2
+  )};
+// Profiler server port, and the base URLs the runtime tries in order per
+// platform (simulator/emulator host first, then this machine's LAN address)
+export const PROFILER_SERVER_PORT: number = ${config.endpoints.port};
+export const PROFILER_SERVER_URLS: { ios: string[]; android: string[] } = ${JSON.stringify(
+    { ios: config.endpoints.ios, android: config.endpoints.android },
+    null,
+    2
+  )};
+// Ports the runtime scans (GET /discover) when none of the URLs answer,
+// e.g. after the server fell back to another port
+export const PROFILER_DISCOVERY_PORTS: number[] = ${JSON.stringify(
+    config.endpoints.discoveryPorts
+  )};
+// Per-workspace token required by the profiler server; don't share it
+export const PROFILER_AUTH_TOKEN: string = ${JSON.stringify(
+    config.authToken
+  )};
+`;
+}
@@ -0,0 +1,103 @@
+import * as os from "os";
+
+// The Android emulator reaches the host's loopback interface through this alias
+const ANDROID_EMULATOR_HOST = "10.0.2.2";
+
+const WILDCARD_ADDRESSES = ["0.0.0.0", "::", ""];
+const LOOPBACK_ADDRESSES = ["127.0.0.1", "localhost", "::1"];
+
+/**
+ * Base URL of the profiler server as seen from each kind of target. A target
+ * is undefined when the bind address makes the server unreachable from it
+ */
+export interface ServerTargets {
+  simulator?: string; // iOS simulator (shares the host's network)
+  androidEmulator?: string;
+  device?: string; // Physical devices on the same network
+}
+
+/**
+ * Where the runtime should look for the server: the port plus, per platform,
+ * the base URLs to try in order, and the ports to scan if none answer
+ */
+export interface ServerEndpoints {
+  port: number;
+  bindAddress: string;
+  targets: ServerTargets;
+  ios: string[];
+  android: string[];
+  discoveryPorts: number[];
+}
+
+/**
+ * Returns the host's first private IPv4 address, if it has one
+ */
+export function getLanAddress(): string | undefined {
+  const candidates: string[] = [];
+  for (const addresses of Object.values(os.networkInterfaces())) {
+    for (const address of addresses || []) {
+      if (address.family === "IPv4" && !address.internal) {
+        candidates.push(address.address);
+      }
+    }
+  }
+
+  // Prefer typical home/office ranges over e.g. VPN or Docker bridges
+  const isPrivate = (ip: string) =>
+    ip.startsWith("192.168.") ||
+    ip.startsWith("10.") ||
+    /^172\.(1[6-9]|2\d|3[01])\./.test(ip);
+  return candidates.find(isPrivate) || candidates[0];
+}
+
+/**
+ * Works out the server URL for each target from the address the server binds:
+ * loopback is reachable from simulators and the Android emulator only, a
+ * wildcard address from everything, and a specific address only through
+ * that address
+ */
+export function getServerEndpoints(
+  port: number,
+  bindAddress: string,
+  discoveryPorts: number[] = [port]
+): ServerEndpoints {
+  const url = (host: string) => `http://${host}:${port}`;
+  let targets: ServerTargets;
+
+  if (LOOPBACK_ADDRESSES.includes(bindAddress)) {
+    targets = {
+      simulator: url("localhost"),
+      androidEmulator: url(ANDROID_EMULATOR_HOST),
+    };
+  } else if (WILDCARD_ADDRESSES.includes(bindAddress)) {
+    const lanAddress = getLanAddress();
+    targets = {
+      simulator: url("localhost"),
+      androidEmulator: url(ANDROID_EMULATOR_HOST),
+      device: lanAddress ? url(lanAddress) : undefined,
+    };
+  } else {
+    targets = {
+      simulator: url(bindAddress),
+      androidEmulator: url(bindAddress),
+      device: url(bindAddress),
+    };
+  }
+
+  // localhost also covers Android devices using `adb reverse tcp:<port> tcp:<port>`
+  const candidates = (...urls: (string | undefined)[]) =>
+    Array.from(new Set(urls.filter((value): value is string => !!value)));
+
+  return {
+    port,
+    bindAddress,
+    targets,
+    ios: candidates(targets.simulator, targets.device),
+    android: candidates(
+      targets.androidEmulator,
+      targets.device,
+      targets.simulator
+    ),
+    discoveryPorts,
+  };
+}
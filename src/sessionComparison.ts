@@ -0,0 +1,165 @@
+import { ProfileLog } from "./types";
+import { summarizeDurations, mannWhitneyU } from "./stats";
+
+// A difference counts when it is this unlikely to be chance...
+const SIGNIFICANCE_LEVEL = 0.05;
+// ...and moves the median by at least this fraction, so tiny but consistent
+// shifts on hot components aren't flagged
+const MIN_RELATIVE_CHANGE = 0.05;
+// Fewer renders than this on either side are too few to test
+const MIN_SAMPLES = 5;
+
+export type ComparisonVerdict =
+  | "regressed"
+  | "improved"
+  | "unchanged"
+  | "added"
+  | "removed";
+
+/**
+ * Render statistics of one component in one session
+ */
+export interface ComponentSample {
+  count: number;
+  mean?: number;
+  p50?: number;
+  p95?: number;
+  mountMean?: number; // Mean actualDuration of mount renders
+}
+
+export interface ComponentComparison {
+  id: string;
+  baseline: ComponentSample;
+  candidate: ComponentSample;
+  medianChange?: number; // Relative change of p50, e.g. 0.25 for +25%
+  pValue?: number; // Mann-Whitney U; undefined when there were too few renders
+  verdict: ComparisonVerdict;
+}
+
+export interface SessionComparison {
+  components: ComponentComparison[];
+  summary: Record<ComparisonVerdict, number>;
+  significanceLevel: number;
+}
+
+/**
+ * Compares per-component render durations of a baseline and a candidate
+ * session. A component is "regressed" or "improved" only when a
+ * Mann-Whitney U test finds the durations differ significantly and the
+ * median moved by a meaningful amount; otherwise it is "unchanged".
+ * Components rendered in only one of the sessions are "added"/"removed".
+ */
+export function compareSessions(
+  baselineLogs: ProfileLog[],
+  candidateLogs: ProfileLog[]
+): SessionComparison {
+  const baseline = groupById(baselineLogs);
+  const candidate = groupById(candidateLogs);
+  const ids = new Set([...baseline.keys(), ...candidate.keys()]);
+
+  const components: ComponentComparison[] = [];
+  for (const id of ids) {
+    const before = baseline.get(id) || [];
+    const after = candidate.get(id) || [];
+    const comparison: ComponentComparison = {
+      id,
+      baseline: sample(before),
+      candidate: sample(after),
+      verdict: "unchanged",
+    };
+
+    if (before.length === 0) {
+      comparison.verdict = "added";
+    } else if (after.length === 0) {
+      comparison.verdict = "removed";
+    } else {
+      const p50Before = comparison.baseline.p50!;
+      const p50After = comparison.candidate.p50!;
+      comparison.medianChange =
+        p50Before > 0 ? (p50After - p50Before) / p50Before : undefined;
+
+      if (before.length >= MIN_SAMPLES && after.length >= MIN_SAMPLES) {
+        const test = mannWhitneyU(durations(before), durations(after));
+        comparison.pValue = test?.pValue;
+        const meaningful =
+          comparison.medianChange === undefined ||
+          Math.abs(comparison.medianChange) >= MIN_RELATIVE_CHANGE;
+        if (
+          test &&
+          test.pValue < SIGNIFICANCE_LEVEL &&
+          meaningful &&
+          p50After !== p50Before
+        ) {
+          comparison.verdict = p50After > p50Before ? "regressed" : "improved";
+        }
+      }
+    }
+    components.push(comparison);
+  }
+
+  // Regressions first, then by how much render time changed
+  const order: Record<ComparisonVerdict, number> = {
+    regressed: 0,
+    improved: 1,
+    added: 2,
+    removed: 3,
+    unchanged: 4,
+  };
+  components.sort(
+    (a, b) =>
+      order[a.verdict] - order[b.verdict] ||
+      Math.abs(totalChange(b)) - Math.abs(totalChange(a))
+  );
+
+  const summary: Record<ComparisonVerdict, number> = {
+    regressed: 0,
+    improved: 0,
+    unchanged: 0,
+    added: 0,
+    removed: 0,
+  };
+  for (const component of components) {
+    summary[component.verdict] += 1;
+  }
+
+  return { components, summary, significanceLevel: SIGNIFICANCE_LEVEL };
+}
+
+function groupById(logs: ProfileLog[]): Map<string, ProfileLog[]> {
+  const groups = new Map<string, ProfileLog[]>();
+  for (const log of logs) {
+    const group = groups.get(log.id);
+    if (group) {
+      group.push(log);
+    } else {
+      groups.set(log.id, [log]);
+    }
+  }
+  return groups;
+}
+
+function durations(logs: ProfileLog[]): number[] {
+  return logs.map((log) => log.actualDuration);
+}
+
+function sample(logs: ProfileLog[]): ComponentSample {
+  const summary = summarizeDurations(durations(logs));
+  const mounts = summarizeDurations(
+    durations(logs.filter((log) => log.phase === "mount"))
+  );
+  return {
+    count: logs.length,
+    mean: summary?.mean,
+    p50: summary?.p50,
+    p95: summary?.p95,
+    mountMean: mounts?.mean,
+  };
+}
+
+/**
+ * Change in total render time between the sessions, in ms
+ */
+function totalChange(comparison: ComponentComparison): number {
+  const total = (sample: ComponentSample) => (sample.mean || 0) * sample.count;
+  return total(comparison.candidate) - total(comparison.baseline);
+}
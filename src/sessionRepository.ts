@@ -0,0 +1,162 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  ProfileLog,
+  SessionInfo,
+  StoredSession,
+  StoredSessionMeta,
+} from "./types";
+
+// Session ids are used as file names, so only allow a safe character set
+const SESSION_ID_PATTERN = /^[\w.-]+$/;
+
+/**
+ * Persists recording sessions to a folder on disk
+ * (e.g. <workspace>/.rn-profiler/sessions), one <id>.json file with the logs
+ * plus a small <id>.meta.json so sessions can be listed without loading logs
+ */
+export class SessionRepository {
+  private sessionsDir: string;
+
+  constructor(sessionsDir: string) {
+    this.sessionsDir = sessionsDir;
+  }
+
+  /**
+   * Creates a repository for the standard location inside a workspace folder
+   */
+  static forWorkspace(workspaceRoot: string): SessionRepository {
+    return new SessionRepository(
+      path.join(workspaceRoot, ".rn-profiler", "sessions")
+    );
+  }
+
+  getDirectory(): string {
+    return this.sessionsDir;
+  }
+
+  async save(
+    session: SessionInfo,
+    logs: ProfileLog[],
+    name?: string
+  ): Promise<StoredSessionMeta> {
+    this.assertValidId(session.id);
+    await fs.promises.mkdir(this.sessionsDir, { recursive: true });
+
+    const existing = await this.readMeta(session.id);
+    const meta: StoredSessionMeta = {
+      ...session,
+      name:
+        name ||
+        existing?.name ||
+        `Recording ${new Date(session.startTime).toLocaleString()}`,
+      savedAt: new Date().toISOString(),
+    };
+
+    await fs.promises.writeFile(
+      this.logsPath(session.id),
+      JSON.stringify({ sessionId: session.id, logs }),
+      "utf8"
+    );
+    await this.writeMeta(meta);
+    // The saved logs include any spilled during the recording
+    await fs.promises.rm(this.spillPath(session.id), { force: true });
+    return meta;
+  }
+
+  /**
+   * Lists stored sessions, most recent first
+   */
+  async list(): Promise<StoredSessionMeta[]> {
+    let entries: string[];
+    try {
+      entries = await fs.promises.readdir(this.sessionsDir);
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const sessions: StoredSessionMeta[] = [];
+    for (const entry of entries) {
+      if (!entry.endsWith(".meta.json")) {
+        continue;
+      }
+      const meta = await this.readMeta(entry.replace(/\.meta\.json$/, ""));
+      if (meta) {
+        sessions.push(meta);
+      }
+    }
+
+    return sessions.sort((a, b) => b.startTime.localeCompare(a.startTime));
+  }
+
+  async load(id: string): Promise<StoredSession> {
+    this.assertValidId(id);
+    const meta = await this.readMeta(id);
+    if (!meta) {
+      throw new Error(`Session ${id} not found`);
+    }
+
+    const content = await fs.promises.readFile(this.logsPath(id), "utf8");
+    const data = JSON.parse(content);
+    return { meta, logs: Array.isArray(data.logs) ? data.logs : [] };
+  }
+
+  async rename(id: string, name: string): Promise<StoredSessionMeta> {
+    this.assertValidId(id);
+    const meta = await this.readMeta(id);
+    if (!meta) {
+      throw new Error(`Session ${id} not found`);
+    }
+
+    meta.name = name;
+    await this.writeMeta(meta);
+    return meta;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.assertValidId(id);
+    await fs.promises.rm(this.logsPath(id), { force: true });
+    await fs.promises.rm(this.metaPath(id), { force: true });
+    await fs.promises.rm(this.spillPath(id), { force: true });
+  }
+
+  private async readMeta(id: string): Promise<StoredSessionMeta | undefined> {
+    try {
+      const content = await fs.promises.readFile(this.metaPath(id), "utf8");
+      return JSON.parse(content);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private async writeMeta(meta: StoredSessionMeta): Promise<void> {
+    await fs.promises.writeFile(
+      this.metaPath(meta.id),
+      JSON.stringify(meta, null, 2),
+      "utf8"
+    );
+  }
+
+  private logsPath(id: string): string {
+    return path.join(this.sessionsDir, `${id}.json`);
+  }
+
+  // Written by LogStore when logs are evicted with spill-to-disk enabled,
+  // removed once the session is saved
+  private spillPath(id: string): string {
+    return path.join(this.sessionsDir, `${id}.spill.ndjson`);
+  }
+
+  private metaPath(id: string): string {
+    return path.join(this.sessionsDir, `${id}.meta.json`);
+  }
+
+  private assertValidId(id: string) {
+    if (!SESSION_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid session id: ${id}`);
+    }
+  }
+}
@@ -0,0 +1,294 @@
+import { ProfileLog, RenderPhase } from "./types";
+
+// One frame at 60 Hz; renders longer than this drop frames
+export const FRAME_BUDGET_MS = 1000 / 60;
+
+// Histogram bucket edges in ms, around the 16.7ms frame budget at 60 Hz
+export const DEFAULT_HISTOGRAM_EDGES = [0, 1, 2, 4, 8, 16.7, 33.3, 50, 100];
+
+/**
+ * Result of a two-sided Mann-Whitney U test
+ */
+export interface MannWhitneyResult {
+  u: number; // U statistic of the first sample
+  z: number;
+  pValue: number;
+}
+
+export function mean(values: number[]): number | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Nearest-rank percentile, or undefined for no values
+ */
+export function percentile(values: number[], p: number): number | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+  return percentileOfSorted(
+    [...values].sort((a, b) => a - b),
+    p
+  );
+}
+
+/**
+ * Render durations summarized; percentiles are nearest-rank
+ */
+export interface DurationSummary {
+  count: number;
+  total: number;
+  mean: number;
+  min: number;
+  max: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+}
+
+/**
+ * Values from min (inclusive) to max (exclusive); the last bucket has no max
+ */
+export interface HistogramBucket {
+  min: number;
+  max?: number;
+  count: number;
+}
+
+/**
+ * Statistics of one component's renders within a session
+ */
+export interface ComponentStats {
+  id: string;
+  durations: DurationSummary; // actualDuration of every render
+  baseDurations: DurationSummary; // baseDuration of every render
+  phases: Partial<Record<RenderPhase, DurationSummary>>;
+  timeShare: number; // Fraction of the session's total render time, 0-1
+  rendersPerSecond?: number; // Undefined when the session has no time span
+  histogram: HistogramBucket[];
+}
+
+/**
+ * Statistics of a whole session; the panel tables, the AI prompt and the
+ * exports all work from this so they report the same numbers
+ */
+export interface SessionStats {
+  renderCount: number;
+  spanMs: number; // From the first to the last render's timestamp
+  rendersPerSecond?: number;
+  durations?: DurationSummary; // Undefined for no renders
+  phases: Partial<Record<RenderPhase, DurationSummary>>;
+  histogram: HistogramBucket[];
+  components: ComponentStats[]; // Most total render time first
+}
+
+export function summarizeDurations(
+  values: number[]
+): DurationSummary | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+  return {
+    count: sorted.length,
+    total,
+    mean: total / sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    p50: percentileOfSorted(sorted, 50),
+    p90: percentileOfSorted(sorted, 90),
+    p95: percentileOfSorted(sorted, 95),
+    p99: percentileOfSorted(sorted, 99),
+  };
+}
+
+/**
+ * Counts values per bucket; edges must be ascending, and values below the
+ * first edge are counted in the first bucket
+ */
+export function histogram(
+  values: number[],
+  edges: number[] = DEFAULT_HISTOGRAM_EDGES
+): HistogramBucket[] {
+  const buckets: HistogramBucket[] = edges.map((min, index) => ({
+    min,
+    max: edges[index + 1],
+    count: 0,
+  }));
+  for (const value of values) {
+    let index = buckets.length - 1;
+    while (index > 0 && value < buckets[index].min) {
+      index--;
+    }
+    buckets[index].count += 1;
+  }
+  return buckets;
+}
+
+/**
+ * Computes session-wide and per-component statistics of actualDuration.
+ * Render frequency is measured over the span between the first and last
+ * render, across all devices
+ */
+export function computeSessionStats(logs: ProfileLog[]): SessionStats {
+  const byComponent = new Map<string, ProfileLog[]>();
+  let first = Infinity;
+  let last = -Infinity;
+  for (const log of logs) {
+    const componentLogs = byComponent.get(log.id);
+    if (componentLogs) {
+      componentLogs.push(log);
+    } else {
+      byComponent.set(log.id, [log]);
+    }
+    const time = Date.parse(log.timestamp);
+    if (!isNaN(time)) {
+      first = Math.min(first, time);
+      last = Math.max(last, time);
+    }
+  }
+
+  const spanMs = last > first ? last - first : 0;
+  const perSecond = (count: number) =>
+    spanMs > 0 ? count / (spanMs / 1000) : undefined;
+  const durations = summarizeDurations(logs.map((log) => log.actualDuration));
+  const totalDuration = durations ? durations.total : 0;
+
+  const components: ComponentStats[] = [];
+  for (const [id, componentLogs] of byComponent) {
+    const values = componentLogs.map((log) => log.actualDuration);
+    const summary = summarizeDurations(values)!;
+    components.push({
+      id,
+      durations: summary,
+      baseDurations: summarizeDurations(
+        componentLogs.map((log) => log.baseDuration)
+      )!,
+      phases: summarizePhases(componentLogs),
+      timeShare: totalDuration > 0 ? summary.total / totalDuration : 0,
+      rendersPerSecond: perSecond(componentLogs.length),
+      histogram: histogram(values),
+    });
+  }
+  components.sort(
+    (a, b) =>
+      b.durations.total - a.durations.total ||
+      b.durations.count - a.durations.count
+  );
+
+  return {
+    renderCount: logs.length,
+    spanMs,
+    rendersPerSecond: perSecond(logs.length),
+    durations,
+    phases: summarizePhases(logs),
+    histogram: histogram(logs.map((log) => log.actualDuration)),
+    components,
+  };
+}
+
+/**
+ * Per-phase summaries; phases without renders are left out
+ */
+function summarizePhases(
+  logs: ProfileLog[]
+): Partial<Record<RenderPhase, DurationSummary>> {
+  const byPhase = new Map<RenderPhase, number[]>();
+  for (const log of logs) {
+    const values = byPhase.get(log.phase);
+    if (values) {
+      values.push(log.actualDuration);
+    } else {
+      byPhase.set(log.phase, [log.actualDuration]);
+    }
+  }
+
+  const phases: Partial<Record<RenderPhase, DurationSummary>> = {};
+  for (const [phase, values] of byPhase) {
+    phases[phase] = summarizeDurations(values);
+  }
+  return phases;
+}
+
+function percentileOfSorted(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
+
+/**
+ * Two-sided Mann-Whitney U test of whether two samples come from the same
+ * distribution. Render durations are skewed and have outliers, so a rank
+ * test fits better than a t-test. Uses the normal approximation with tie
+ * and continuity correction, so it needs a handful of values per sample
+ */
+export function mannWhitneyU(
+  a: number[],
+  b: number[]
+): MannWhitneyResult | undefined {
+  const n1 = a.length;
+  const n2 = b.length;
+  if (n1 === 0 || n2 === 0) {
+    return undefined;
+  }
+
+  // Rank the pooled values, giving tied values their average rank
+  const pooled = [
+    ...a.map((value) => ({ value, first: true })),
+    ...b.map((value) => ({ value, first: false })),
+  ].sort((x, y) => x.value - y.value);
+  const n = pooled.length;
+  let rankSumA = 0;
+  let tieTerm = 0;
+  for (let start = 0; start < n; ) {
+    let end = start;
+    while (end + 1 < n && pooled[end + 1].value === pooled[start].value) {
+      end++;
+    }
+    const rank = (start + end) / 2 + 1;
+    const ties = end - start + 1;
+    tieTerm += ties ** 3 - ties;
+    for (let i = start; i <= end; i++) {
+      if (pooled[i].first) {
+        rankSumA += rank;
+      }
+    }
+    start = end + 1;
+  }
+
+  const u = rankSumA - (n1 * (n1 + 1)) / 2;
+  const expected = (n1 * n2) / 2;
+  const variance = ((n1 * n2) / 12) * (n + 1 - tieTerm / (n * (n - 1)));
+  if (variance <= 0) {
+    // Every value is the same
+    return { u, z: 0, pValue: 1 };
+  }
+
+  const z = Math.max(0, Math.abs(u - expected) - 0.5) / Math.sqrt(variance);
+  return {
+    u,
+    z: u < expected ? -z : z,
+    pValue: Math.min(1, 2 * (1 - normalCdf(z))),
+  };
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error below 1.5e-7)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    t *
+      (0.254829592 +
+        t *
+          (-0.284496736 +
+            t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
@@ -0,0 +1,272 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { SuggestedEdit } from "./logAnalyzer";
+
+/**
+ * A suggested edit that matches the current text of its file
+ */
+export interface CheckedEdit {
+  edit: SuggestedEdit;
+  uri: vscode.Uri;
+  range: vscode.Range;
+  replacement: string; // With the file's line endings and indentation
+}
+
+/**
+ * A suggested edit that was left out, and why
+ */
+export interface RejectedEdit {
+  edit: SuggestedEdit;
+  reason: string;
+}
+
+/**
+ * Where an edit's original snippet is in a file, as offsets
+ */
+interface EditMatch {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+/**
+ * A place an edit's original snippet was found; matches of whole lines
+ * with different indentation say how to re-indent the replacement
+ */
+interface LineMatch {
+  start: number;
+  end: number;
+  indentation?: { from: string; to: string };
+}
+
+/**
+ * Checks suggested edits against the current text of their files, including
+ * unsaved changes. Edits are rejected when their file is outside the
+ * workspace or missing, when their original snippet can't be found in one
+ * place, and when they overlap an edit accepted before them
+ */
+export async function checkSuggestedEdits(
+  edits: SuggestedEdit[]
+): Promise<{ accepted: CheckedEdit[]; rejected: RejectedEdit[] }> {
+  const accepted: CheckedEdit[] = [];
+  const rejected: RejectedEdit[] = [];
+  const workspaceFolders = vscode.workspace.workspaceFolders;
+  if (!workspaceFolders || workspaceFolders.length === 0) {
+    return {
+      accepted,
+      rejected: edits.map((edit) => ({
+        edit,
+        reason: "no workspace folder is open",
+      })),
+    };
+  }
+
+  const documents = new Map<string, vscode.TextDocument | undefined>();
+  const matched = new Map<string, EditMatch[]>(); // Accepted edits by file
+  for (const edit of edits) {
+    const file = path.posix.normalize(edit.file.replace(/\\/g, "/"));
+    if (path.isAbsolute(edit.file) || file === ".." || file.startsWith("../")) {
+      rejected.push({ edit, reason: "the file is outside the workspace" });
+      continue;
+    }
+
+    const uri = vscode.Uri.joinPath(workspaceFolders[0].uri, file);
+    if (!documents.has(file)) {
+      try {
+        documents.set(file, await vscode.workspace.openTextDocument(uri));
+      } catch (error) {
+        documents.set(file, undefined);
+      }
+    }
+    const document = documents.get(file);
+    if (!document) {
+      rejected.push({ edit, reason: "the file doesn't exist" });
+      continue;
+    }
+
+    const match = matchSuggestedEdit(document.getText(), edit);
+    if (typeof match === "string") {
+      rejected.push({ edit, reason: match });
+      continue;
+    }
+    const fileMatches = matched.get(file) || [];
+    if (
+      fileMatches.some(
+        (other) => match.start < other.end && other.start < match.end
+      )
+    ) {
+      rejected.push({ edit, reason: "it overlaps another suggested edit" });
+      continue;
+    }
+    matched.set(file, [...fileMatches, match]);
+    accepted.push({
+      edit,
+      uri,
+      range: new vscode.Range(
+        document.positionAt(match.start),
+        document.positionAt(match.end)
+      ),
+      replacement: match.replacement,
+    });
+  }
+  return { accepted, rejected };
+}
+
+/**
+ * Opens the edits in the refactor preview, a diff of every file they touch,
+ * and applies the ones accepted there as one undoable workspace edit.
+ * Returns whether they were applied
+ */
+export async function previewSuggestedEdits(
+  edits: CheckedEdit[]
+): Promise<boolean> {
+  const workspaceEdit = new vscode.WorkspaceEdit();
+  for (const { edit, uri, range, replacement } of edits) {
+    workspaceEdit.replace(uri, range, replacement, {
+      label: edit.description || `Suggested edit to ${edit.file}`,
+      description: `${edit.file}:${range.start.line + 1}`,
+      needsConfirmation: true,
+    });
+  }
+  return vscode.workspace.applyEdit(workspaceEdit);
+}
+
+/**
+ * Finds an edit's original snippet in a file's text: exactly, or as whole
+ * lines that only differ in indentation, in which case the replacement is
+ * re-indented to match. When the snippet occurs several times, the place
+ * nearest the lines it was quoted from wins. Returns why the edit doesn't
+ * apply otherwise
+ */
+export function matchSuggestedEdit(
+  text: string,
+  edit: SuggestedEdit
+): EditMatch | string {
+  const eol = text.includes("\r\n") ? "\r\n" : "\n";
+  const toEol = (value: string) => value.replace(/\r?\n/g, eol);
+  const original = toEol(edit.original);
+
+  let matches: LineMatch[] = findAll(text, original).map((start) => ({
+    start,
+    end: start + original.length,
+  }));
+  if (matches.length === 0) {
+    matches = findLines(text, edit.original);
+  }
+  if (matches.length === 0) {
+    return "the original code isn't in the file; it may have changed since the analysis";
+  }
+
+  let match = matches[0];
+  if (matches.length > 1) {
+    if (edit.startLine === undefined) {
+      return `the original code occurs ${matches.length} times in the file`;
+    }
+    const distance = (candidate: { start: number }) =>
+      Math.abs(lineAt(text, candidate.start) - edit.startLine!);
+    const sorted = [...matches].sort((a, b) => distance(a) - distance(b));
+    if (distance(sorted[0]) === distance(sorted[1])) {
+      return `the original code occurs ${matches.length} times in the file`;
+    }
+    match = sorted[0];
+  }
+
+  const replacement = toEol(
+    match.indentation === undefined
+      ? edit.replacement
+      : reindent(edit.replacement, match.indentation)
+  );
+  if (text.slice(match.start, match.end) === replacement) {
+    return "it doesn't change the code";
+  }
+  return { start: match.start, end: match.end, replacement };
+}
+
+function findAll(text: string, value: string): number[] {
+  const found: number[] = [];
+  for (
+    let index = text.indexOf(value);
+    index !== -1;
+    index = text.indexOf(value, index + 1)
+  ) {
+    found.push(index);
+  }
+  return found;
+}
+
+/**
+ * Finds the runs of whole lines equal to the snippet's lines once leading
+ * and trailing whitespace is ignored
+ */
+function findLines(text: string, snippet: string): LineMatch[] {
+  const snippetLines = snippet.split(/\r?\n/);
+  while (snippetLines.length > 0 && !snippetLines[0].trim()) {
+    snippetLines.shift();
+  }
+  while (
+    snippetLines.length > 0 &&
+    !snippetLines[snippetLines.length - 1].trim()
+  ) {
+    snippetLines.pop();
+  }
+  if (snippetLines.length === 0) {
+    return [];
+  }
+
+  const lines = text.split(/\r?\n/);
+  const lineStarts = [0];
+  const eolPattern = /\r?\n/g;
+  for (
+    let found = eolPattern.exec(text);
+    found;
+    found = eolPattern.exec(text)
+  ) {
+    lineStarts.push(found.index + found[0].length);
+  }
+
+  const from = indentation(snippetLines[0]);
+  const matches: LineMatch[] = [];
+  for (let first = 0; first + snippetLines.length <= lines.length; first++) {
+    const isMatch = snippetLines.every(
+      (line, index) => lines[first + index].trim() === line.trim()
+    );
+    if (isMatch) {
+      const last = first + snippetLines.length - 1;
+      matches.push({
+        start: lineStarts[first],
+        end: lineStarts[last] + lines[last].length,
+        indentation: { from, to: indentation(lines[first]) },
+      });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Swaps the indentation the replacement was written with for the file's
+ */
+function reindent(
+  replacement: string,
+  { from, to }: { from: string; to: string }
+): string {
+  if (from === to) {
+    return replacement;
+  }
+  return replacement
+    .split(/\r?\n/)
+    .map((line) =>
+      line.trim() && line.startsWith(from) ? to + line.slice(from.length) : line
+    )
+    .join("\n");
+}
+
+function indentation(line: string): string {
+  return /^\s*/.exec(line)![0];
+}
+
+/**
+ * 1-based line of an offset
+ */
+function lineAt(text: string, offset: number): number {
+  return text.slice(0, offset).split("\n").length;
+}
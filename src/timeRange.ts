@@ -0,0 +1,29 @@
+import { ProfileLog, TimeRange } from "./types";
+
+export function isTimeRange(value: unknown): value is TimeRange {
+  const range = value as TimeRange;
+  return (
+    !!range &&
+    typeof range === "object" &&
+    Number.isFinite(range.start) &&
+    Number.isFinite(range.end) &&
+    range.start <= range.end
+  );
+}
+
+/**
+ * Logs whose timestamp falls within the range (inclusive); all logs when
+ * there is no range
+ */
+export function filterByTimeRange(
+  logs: ProfileLog[],
+  range?: TimeRange
+): ProfileLog[] {
+  if (!range) {
+    return logs;
+  }
+  return logs.filter((log) => {
+    const time = Date.parse(log.timestamp);
+    return time >= range.start && time <= range.end;
+  });
+}
@@ -0,0 +1,177 @@
+import { ProfileLog, SessionInfo, DeviceInfo } from "./types";
+import { RecordingSession } from "./recordingSession";
+
+/**
+ * A Chrome Trace Event, as understood by Perfetto and chrome://tracing.
+ * Times are in microseconds
+ */
+export interface TraceEvent {
+  name: string;
+  ph: "X" | "M"; // Complete slice, or metadata
+  pid: number;
+  tid: number;
+  ts?: number;
+  dur?: number;
+  cat?: string;
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Chrome Trace Event JSON (object format)
+ */
+export interface ChromeTrace {
+  traceEvents: TraceEvent[];
+  displayTimeUnit: "ms";
+  otherData: Record<string, unknown>;
+}
+
+// Every device gets one process (track) with a single thread of commits
+const COMMITS_TID = 1;
+
+/**
+ * Converts a session's logs into Chrome Trace Event JSON with one track per
+ * device. Logs sharing a commitTime on a device form one "Commit" slice,
+ * with a slice per rendered component nested inside it.
+ *
+ * React reports startTime/commitTime on each device's own clock, so every
+ * device is shifted onto wall-clock time (via the ISO timestamp of its first
+ * log) to line the tracks up. Component slices all start at the commit's
+ * start: actualDuration includes children, so parents outlast and enclose
+ * their children, while siblings end up stacked rather than side by side.
+ */
+export function toChromeTrace(
+  session: SessionInfo,
+  logs: ProfileLog[]
+): ChromeTrace {
+  const sessionStart = Date.parse(session.startTime);
+  const events: TraceEvent[] = [];
+  const devices = new Map<
+    string,
+    { pid: number; offsetMs: number; commits: Map<number, ProfileLog[]> }
+  >();
+
+  for (const log of logs) {
+    const clientId = log.clientId || RecordingSession.fallbackClientId(log);
+    let device = devices.get(clientId);
+    if (!device) {
+      device = {
+        pid: devices.size + 1,
+        offsetMs: Date.parse(log.timestamp) - log.commitTime - sessionStart,
+        commits: new Map(),
+      };
+      devices.set(clientId, device);
+      events.push(
+        {
+          name: "process_name",
+          ph: "M",
+          pid: device.pid,
+          tid: COMMITS_TID,
+          args: { name: describeDevice(log.deviceInfo, clientId) },
+        },
+        {
+          name: "process_sort_index",
+          ph: "M",
+          pid: device.pid,
+          tid: COMMITS_TID,
+          args: { sort_index: device.pid },
+        },
+        {
+          name: "thread_name",
+          ph: "M",
+          pid: device.pid,
+          tid: COMMITS_TID,
+          args: { name: "React commits" },
+        }
+      );
+    }
+
+    const commit = device.commits.get(log.commitTime);
+    if (commit) {
+      commit.push(log);
+    } else {
+      device.commits.set(log.commitTime, [log]);
+    }
+  }
+
+  for (const { pid, offsetMs, commits } of devices.values()) {
+    for (const [commitTime, commitLogs] of commits) {
+      events.push(...commitEvents(pid, offsetMs, commitTime, commitLogs));
+    }
+  }
+
+  return {
+    traceEvents: events,
+    displayTimeUnit: "ms",
+    otherData: {
+      sessionId: session.id,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      source: "rn-profiler-ai",
+    },
+  };
+}
+
+/**
+ * Builds the "Commit" slice and its nested component slices
+ */
+function commitEvents(
+  pid: number,
+  offsetMs: number,
+  commitTime: number,
+  commitLogs: ProfileLog[]
+): TraceEvent[] {
+  const events: TraceEvent[] = [];
+  const start = Math.min(...commitLogs.map((log) => log.startTime));
+  const longest = Math.max(...commitLogs.map((log) => log.actualDuration));
+  const totalDuration = commitLogs.reduce(
+    (sum, log) => sum + log.actualDuration,
+    0
+  );
+
+  events.push({
+    name: "Commit",
+    cat: "react.commit",
+    ph: "X",
+    pid,
+    tid: COMMITS_TID,
+    ts: toMicros(start + offsetMs),
+    dur: toMicros(Math.max(commitTime - start, longest)),
+    args: {
+      components: commitLogs.length,
+      totalActualDuration: totalDuration,
+      commitTime,
+    },
+  });
+
+  // Longest first, so equal start times still nest outermost-first
+  const byDuration = [...commitLogs].sort(
+    (a, b) => b.actualDuration - a.actualDuration
+  );
+  for (const log of byDuration) {
+    events.push({
+      name: log.id,
+      cat: "react.render",
+      ph: "X",
+      pid,
+      tid: COMMITS_TID,
+      ts: toMicros(start + offsetMs),
+      dur: toMicros(log.actualDuration),
+      args: {
+        phase: log.phase,
+        actualDuration: log.actualDuration,
+        baseDuration: log.baseDuration,
+      },
+    });
+  }
+
+  return events;
+}
+
+function describeDevice(deviceInfo: DeviceInfo, clientId: string): string {
+  const model = deviceInfo.model ? ` ${deviceInfo.model}` : "";
+  return `${deviceInfo.os} ${deviceInfo.version}${model} (${clientId})`;
+}
+
+function toMicros(ms: number): number {
+  return Math.round(ms * 1000);
+}
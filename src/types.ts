@@ -1,20 +1,86 @@
+import { DeviceInfo, RenderPhase, ControlCommand } from './protocol';
+
+// Wire types live in protocol.ts, which app runtimes share with the extension
+export { DeviceInfo, RenderPhase, ControlCommand, ControlClientMessage } from './protocol';
+
 /**
- * Profile log data structure received from React Native app
+ * Profile log as stored by the extension, after upgrading from the wire
+ * version it was received with (see ProtocolValidator.upgradeLog)
  */
 export interface ProfileLog {
+    protocolVersion?: number; // Wire version the log was received with
     id: string; // Component name or unique ID
-    phase: 'mount' | 'update' | 'force-update';
+    phase: RenderPhase;
     actualDuration: number; // Time spent rendering
     baseDuration: number; // Estimated time without memoization
     startTime: number;
     commitTime: number;
     timestamp: string; // ISO string of when render completed
-    deviceInfo: {
-        os: string; // e.g., 'ios', 'android'
-        version: string; // OS version
-        model?: string; // Device model
-    };
+    deviceInfo: DeviceInfo;
     interactions?: string[]; // Array of interaction IDs associated with this render
+    clientId?: string; // Runtime instance that sent this log (one per device/app launch)
+}
+
+/**
+ * An app runtime connected to the control channel
+ */
+export interface ControlClientInfo {
+    clientId: string;
+    deviceInfo: DeviceInfo;
+    connectedAt: string; // ISO string
+    protocolVersion: number; // Version negotiated in the hello exchange
+    lastAck?: ControlCommand['type'];
+    sessionId?: string; // Recording session the client last acknowledged
+}
+
+/**
+ * A device that sent logs during a recording session
+ */
+export interface SessionClient {
+    clientId: string;
+    deviceInfo: DeviceInfo;
+    firstSeen: string; // ISO string
+    lastSeen: string; // ISO string
+    logCount: number;
+}
+
+/**
+ * Accounting for a bounded in-memory log store
+ */
+export interface LogStoreStats {
+    capacity: number; // Maximum logs kept in memory
+    stored: number; // Logs currently in memory
+    received: number; // Logs accepted since the session started
+    dropped: number; // Logs evicted and discarded
+    spilled: number; // Logs evicted to the session's spill file on disk
+}
+
+/**
+ * Summary of a recording session: its time span and the devices that took part
+ */
+export interface SessionInfo {
+    id: string;
+    startTime: string; // ISO string
+    endTime?: string; // ISO string, unset while recording
+    clients: SessionClient[];
+    logCount: number; // Logs held in memory (see storeStats for evictions)
+    storeStats?: LogStoreStats;
+}
+
+/**
+ * Metadata stored alongside a persisted session (in <id>.meta.json)
+ */
+export interface StoredSessionMeta extends SessionInfo {
+    name: string; // User-editable display name
+    savedAt: string; // ISO string
+}
+
+/**
+ * A persisted session with its logs
+ */
+export interface StoredSession {
+    meta: StoredSessionMeta;
+    logs: ProfileLog[];
 }
 
 /**
@@ -27,6 +93,17 @@ export interface ComponentTreeNode {
     children?: ComponentTreeNode[];
 }
 
+/**
+ * A component declared in a source file, as found by ComponentTreeProvider
+ */
+export interface ComponentDeclaration {
+    name: string;
+    line: number; // 0-based position of the declaration's name
+    column: number;
+    profilerId?: string; // Id the file passes to withProfiler for this component
+    defaultExport?: boolean; // The file's default export (possibly wrapped with withProfiler)
+}
+
 /**
  * Message types for WebView communication
  */
@@ -35,3 +112,29 @@ export interface WebViewMessage {
     [key: string]: any;
 }
 
+/**
+ * A span of session time picked on the panel's timeline, in ms since the epoch
+ */
+export interface TimeRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * Per-item outcome returned by the batch ingestion endpoint
+ */
+export interface BatchItemResult {
+    index: number;
+    success: boolean;
+    logId?: string;
+    error?: string;
+    errors?: FieldError[];
+}
+
+/**
+ * A schema validation failure, e.g. { field: 'deviceInfo.os', message: 'must be string' }
+ */
+export interface FieldError {
+    field: string; // Dotted path into the payload, or '(root)'
+    message: string;
+}